@@ -45,12 +45,7 @@ function Dropdown() {
 
       <Transition
         show={isOpen}
-        enter="transition ease-out duration-75"
-        enterFrom="transform opacity-0 scale-95"
-        enterTo="transform opacity-100 scale-100"
-        leave="transition ease-in duration-150"
-        leaveFrom="transform opacity-100 scale-100"
-        leaveTo="transform opacity-0 scale-95"
+        preset="dropdown"
         className="absolute right-0 w-56 mt-2 origin-top-right rounded-md shadow-lg"
       >
         <div className="bg-white rounded-md shadow-xs">
@@ -48,6 +48,8 @@ function FullPageTransition() {
 
   const direction = activePage > previousPage ? Direction.Forwards : Direction.Backwards
 
+  // The page that is leaving gets the leave classes of the page that is entering, so both of them
+  // slide in the direction we are navigating in.
   const transitions = match(direction, {
     [Direction.Forwards]: {
       enter: 'transition transform ease-in-out duration-500',
@@ -158,20 +160,18 @@ function FullPageTransition() {
         <div className="px-4 pb-12 mx-auto max-w-7xl sm:px-6 lg:px-8">
           <div className="px-5 py-6 bg-white rounded-lg shadow sm:px-6">
             <div className="relative overflow-hidden rounded-lg h-96">
-              {pages.map((page, i) => (
-                <Transition
-                  appear={false}
-                  key={page}
-                  show={activePage === i}
+              <Transition.Switch mode="simultaneous">
+                <Transition.Child
+                  key={pages[activePage]}
                   className={classNames(
                     'absolute inset-0 p-8 text-3xl rounded-lg text-white font-bold',
-                    colors[i]
+                    colors[activePage]
                   )}
                   {...transitions}
                 >
-                  {page} page content
-                </Transition>
-              ))}
+                  {pages[activePage]} page content
+                </Transition.Child>
+              </Transition.Switch>
             </div>
           </div>
         </div>
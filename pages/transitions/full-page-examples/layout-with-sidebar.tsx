@@ -36,7 +36,7 @@ export default function App() {
             leaveFrom="opacity-100"
             leaveTo="opacity-0"
           >
-            {ref => (
+            {({ ref }) => (
               <div ref={ref} className="fixed inset-0">
                 <div
                   onClick={() => setMobileOpen(false)}
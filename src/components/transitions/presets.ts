@@ -0,0 +1,50 @@
+export const presets = {
+  fade: {
+    enter: 'transition-opacity ease-linear duration-300',
+    enterFrom: 'opacity-0',
+    enterTo: 'opacity-100',
+    leave: 'transition-opacity ease-linear duration-300',
+    leaveFrom: 'opacity-100',
+    leaveTo: 'opacity-0',
+  },
+  dropdown: {
+    enter: 'transition ease-out duration-75',
+    enterFrom: 'transform opacity-0 scale-95',
+    enterTo: 'transform opacity-100 scale-100',
+    leave: 'transition ease-in duration-150',
+    leaveFrom: 'transform opacity-100 scale-100',
+    leaveTo: 'transform opacity-0 scale-95',
+  },
+  modalBackdrop: {
+    enter: 'transition-opacity ease-out duration-300',
+    enterFrom: 'opacity-0',
+    enterTo: 'opacity-100',
+    leave: 'transition-opacity ease-in duration-200',
+    leaveFrom: 'opacity-100',
+    leaveTo: 'opacity-0',
+  },
+  modalPanel: {
+    enter: 'transition-all transform ease-out duration-300',
+    enterFrom: 'opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95',
+    enterTo: 'opacity-100 translate-y-0 sm:scale-100',
+    leave: 'transition-all transform ease-in duration-200',
+    leaveFrom: 'opacity-100 translate-y-0 sm:scale-100',
+    leaveTo: 'opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95',
+  },
+  slideOverRight: {
+    enter: 'transition transform ease-in-out duration-500 sm:duration-700',
+    enterFrom: 'translate-x-full',
+    enterTo: 'translate-x-0',
+    leave: 'transition transform ease-in-out duration-500 sm:duration-700',
+    leaveFrom: 'translate-x-0',
+    leaveTo: 'translate-x-full',
+  },
+  slideOverLeft: {
+    enter: 'transition transform ease-in-out duration-300',
+    enterFrom: '-translate-x-full',
+    enterTo: 'translate-x-0',
+    leave: 'transition transform ease-in-out duration-300',
+    leaveFrom: 'translate-x-0',
+    leaveTo: '-translate-x-full',
+  },
+}
@@ -0,0 +1,83 @@
+import * as React from 'react'
+import { render } from '@testing-library/react'
+
+import { suppressConsoleLogs } from '../../test-utils/suppress-console-logs'
+import { Transition, TransitionConfig, TransitionDebugEvent } from './transition'
+
+// Newer versions of React (in `React.StrictMode`) run the effects of a component that mounts, clean
+// them up and run them again, as if the component got unmounted and mounted again. The version of
+// React we test against doesn't do that yet, so we simulate it.
+jest.mock('../../hooks/use-iso-morphic-effect', () => {
+  const { useRef } = jest.requireActual('react')
+  const actual = jest.requireActual('../../hooks/use-iso-morphic-effect')
+
+  return {
+    useIsoMorphicEffect(effect: React.EffectCallback, deps?: React.DependencyList) {
+      const replayed = useRef(false)
+
+      actual.useIsoMorphicEffect(() => {
+        if (!replayed.current) {
+          replayed.current = true
+          const cleanup = effect()
+          if (typeof cleanup === 'function') cleanup()
+        }
+
+        return effect()
+      }, deps)
+    },
+  }
+})
+
+it(
+  'should only fire the events once when the effects are run again',
+  suppressConsoleLogs(async () => {
+    const calls: string[] = []
+    let resolveEntered = () => {}
+    const entered = new Promise<void>(resolve => (resolveEntered = resolve))
+
+    render(
+      <>
+        <style>{`.enter { transition-duration: 50ms; }`}</style>
+
+        <Transition
+          show={true}
+          appear
+          enter="enter"
+          enterFrom="from"
+          enterTo="to"
+          beforeEnter={() => calls.push('beforeEnter')}
+          afterEnter={() => {
+            calls.push('afterEnter')
+            resolveEntered()
+          }}
+          onCancel={() => calls.push('onCancel')}
+        >
+          Hello!
+        </Transition>
+      </>
+    )
+
+    await entered
+
+    expect(calls).toEqual(['beforeEnter', 'afterEnter'])
+  })
+)
+
+it(
+  'should not report a cancelled transition when the effects are run again',
+  suppressConsoleLogs(async () => {
+    const events: TransitionDebugEvent[] = []
+
+    render(
+      <TransitionConfig debug={event => events.push(event)}>
+        <Transition show={true} appear enter="enter" enterFrom="from" enterTo="to">
+          Hello!
+        </Transition>
+      </TransitionConfig>
+    )
+
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    expect(events.filter(event => event.type === 'cancel')).toEqual([])
+  })
+)
@@ -0,0 +1,17 @@
+import * as React from 'react'
+
+// Run the whole `Transition` test suite again, but this time every tree is rendered inside of
+// `React.StrictMode`. This double invokes the render phase (and effects in newer versions of React)
+// which should not affect the behaviour of the transitions.
+jest.mock('@testing-library/react', () => {
+  const testingLibrary = jest.requireActual('@testing-library/react')
+
+  return {
+    ...testingLibrary,
+    render(ui: React.ReactElement, options?: object) {
+      return testingLibrary.render(ui, { wrapper: React.StrictMode, ...options })
+    },
+  }
+})
+
+require('./transition.test')
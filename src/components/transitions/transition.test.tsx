@@ -1,8 +1,8 @@
 import * as React from 'react'
-import { render, fireEvent } from '@testing-library/react'
+import { render, fireEvent, act } from '@testing-library/react'
 
 import { suppressConsoleLogs } from '../../test-utils/suppress-console-logs'
-import { Transition } from './transition'
+import { Transition, TransitionConfig, TransitionDebugEvent, useTransition } from './transition'
 
 import { executeTimeline } from '../../test-utils/execute-timeline'
 
@@ -98,12 +98,257 @@ describe('Setup API', () => {
       `)
     })
 
+    it('should forward the ref to the rendered DOM node', () => {
+      const ref = React.createRef<HTMLAnchorElement>()
+
+      render(
+        <Transition show={true} as="a" href="/" ref={ref}>
+          Children
+        </Transition>
+      )
+
+      expect(ref.current).toBeInstanceOf(HTMLAnchorElement)
+    })
+
+    it('should move the DOM node over when a different ref is passed in', () => {
+      const first = React.createRef<HTMLAnchorElement>()
+      const second = React.createRef<HTMLAnchorElement>()
+
+      const { rerender } = render(
+        <Transition show={true} as="a" href="/" ref={first}>
+          Children
+        </Transition>
+      )
+
+      expect(first.current).toBeInstanceOf(HTMLAnchorElement)
+
+      rerender(
+        <Transition show={true} as="a" href="/" ref={second}>
+          Children
+        </Transition>
+      )
+
+      expect(first.current).toBeNull()
+      expect(second.current).toBeInstanceOf(HTMLAnchorElement)
+    })
+
+    it('should forward the ref to the DOM node of a render prop', () => {
+      const ref = React.createRef<HTMLElement>()
+
+      render(
+        <Transition show={true} ref={ref}>
+          {({ ref }) => <span ref={ref}>Children</span>}
+        </Transition>
+      )
+
+      expect(ref.current).toBeInstanceOf(HTMLSpanElement)
+    })
+
+    it('should be possible to render a custom component that forwards its ref', () => {
+      const Card = React.forwardRef<HTMLElement, { title: string; children?: React.ReactNode }>(
+        ({ title, children }, ref) => (
+          <article ref={ref}>
+            <h1>{title}</h1>
+            {children}
+          </article>
+        )
+      )
+      const ref = React.createRef<HTMLElement>()
+
+      const { container } = render(
+        <Transition show={true} as={Card} title="Hello" ref={ref}>
+          Children
+        </Transition>
+      )
+
+      expect(ref.current).toBe(container.firstChild)
+      expect(container.firstChild).toMatchInlineSnapshot(`
+        <article>
+          <h1>
+            Hello
+          </h1>
+          Children
+        </article>
+      `)
+
+      // @ts-expect-error The props of the custom component are inferred, `title` is required.
+      render(<Transition show={true} as={Card} />)
+    })
+
+    it('should render the child without a wrapper element when using a Fragment', () => {
+      const ref = React.createRef<HTMLElement>()
+      const childRef = React.createRef<HTMLLIElement>()
+
+      const { container } = render(
+        <ul>
+          <Transition show={true} as={React.Fragment} className="item" ref={ref}>
+            <li className="list-item" ref={childRef}>
+              Children
+            </li>
+          </Transition>
+        </ul>
+      )
+
+      expect(ref.current).toBeInstanceOf(HTMLLIElement)
+      expect(childRef.current).toBe(ref.current)
+      expect(container.firstChild).toMatchInlineSnapshot(`
+        <ul>
+          <li
+            class="list-item item"
+          >
+            Children
+          </li>
+        </ul>
+      `)
+    })
+
+    it('should keep the ref of the child when rendering a wrapper element', () => {
+      const ref = React.createRef<HTMLElement>()
+      const childRef = React.createRef<HTMLButtonElement>()
+
+      render(
+        <Transition show={true} ref={ref}>
+          <button ref={childRef}>Children</button>
+        </Transition>
+      )
+
+      expect(ref.current).toBeInstanceOf(HTMLDivElement)
+      expect(childRef.current).toBeInstanceOf(HTMLButtonElement)
+    })
+
+    it('should hide the child of a Fragment when the show prop is false and unmount is disabled', () => {
+      const { container } = render(
+        <Transition show={false} unmount={false} as={React.Fragment}>
+          <span style={{ color: 'red' }}>Children</span>
+        </Transition>
+      )
+
+      expect(container.firstChild).toMatchInlineSnapshot(`
+        <span
+          aria-hidden="true"
+          data-closed=""
+          hidden=""
+          style="color: red; display: none;"
+        >
+          Children
+        </span>
+      `)
+    })
+
+    it(
+      'should yell at us when the child of a Fragment is not a single element',
+      suppressConsoleLogs(() => {
+        expect.assertions(1)
+
+        expect(() => {
+          render(
+            <Transition show={true} as={React.Fragment}>
+              <span>First</span>
+              <span>Second</span>
+            </Transition>
+          )
+        }).toThrowErrorMatchingInlineSnapshot(
+          `"A <Transition as={Fragment} /> expects a single element as its child, which can hold a \`ref\` to an actual DOM node (a DOM element or a component using \`React.forwardRef\`)."`
+        )
+      })
+    )
+
+    it(
+      'should yell at us when the child of a Fragment can not hold a ref',
+      suppressConsoleLogs(() => {
+        expect.assertions(1)
+
+        function Item() {
+          return <span>Children</span>
+        }
+
+        expect(() => {
+          render(
+            <Transition show={true} as={React.Fragment}>
+              <Item />
+            </Transition>
+          )
+        }).toThrowErrorMatchingInlineSnapshot(
+          `"A <Transition as={Fragment} /> expects a single element as its child, which can hold a \`ref\` to an actual DOM node (a DOM element or a component using \`React.forwardRef\`)."`
+        )
+      })
+    )
+
     it('should render nothing when the show prop is false', () => {
       const { container } = render(<Transition show={false}>Children</Transition>)
 
       expect(container.firstChild).toMatchInlineSnapshot(`null`)
     })
 
+    it('should render a hidden element when the show prop is false and unmount is disabled', () => {
+      const { container } = render(
+        <Transition show={false} unmount={false} style={{ color: 'red' }}>
+          Children
+        </Transition>
+      )
+
+      expect(container.firstChild).toMatchInlineSnapshot(`
+        <div
+          aria-hidden="true"
+          data-closed=""
+          hidden=""
+          style="color: red; display: none;"
+        >
+          Children
+        </div>
+      `)
+    })
+
+    it('should hide the DOM node of a render prop when the show prop is false and unmount is disabled', () => {
+      const { container } = render(
+        <Transition show={false} unmount={false}>
+          {({ ref }) => <span ref={ref}>Children</span>}
+        </Transition>
+      )
+
+      expect(container.firstChild).toMatchInlineSnapshot(`
+        <span
+          aria-hidden="true"
+          data-closed=""
+          hidden=""
+          style="display: none;"
+        >
+          Children
+        </span>
+      `)
+    })
+
+    it(
+      'should keep the inline display of a render prop when unmount is disabled',
+      suppressConsoleLogs(async () => {
+        function Example({ show }: { show: boolean }) {
+          return (
+            <Transition show={show} unmount={false}>
+              {({ ref }) => (
+                <div ref={ref} style={{ display: 'flex' }}>
+                  Children
+                </div>
+              )}
+            </Transition>
+          )
+        }
+
+        const { container, rerender } = render(<Example show={true} />)
+        const node = container.firstChild as HTMLElement
+
+        expect(node.style.display).toEqual('flex')
+
+        rerender(<Example show={false} />)
+        await new Promise(resolve => setTimeout(resolve, 50))
+
+        expect(node.style.display).toEqual('none')
+
+        rerender(<Example show={true} />)
+
+        expect(node.style.display).toEqual('flex')
+      })
+    )
+
     it('should be possible to change the underlying DOM tag', () => {
       const { container } = render(
         <Transition show={true} as="a">
@@ -120,7 +365,7 @@ describe('Setup API', () => {
 
     it('should be possible to use a render prop', () => {
       const { container } = render(
-        <Transition show={true}>{ref => <span ref={ref}>Children</span>}</Transition>
+        <Transition show={true}>{({ ref }) => <span ref={ref}>Children</span>}</Transition>
       )
 
       expect(container.firstChild).toMatchInlineSnapshot(`
@@ -197,6 +442,39 @@ describe('Setup API', () => {
       `)
     })
 
+    it('should be possible to keep the nested Transition.Child components around when hidden', () => {
+      const { container } = render(
+        <div className="My Page">
+          <Transition show={false} unmount={false}>
+            <Transition.Child unmount={false}>Sidebar</Transition.Child>
+            <Transition.Child>Content</Transition.Child>
+          </Transition>
+        </div>
+      )
+
+      expect(container.firstChild).toMatchInlineSnapshot(`
+        <div
+          class="My Page"
+        >
+          <div
+            aria-hidden="true"
+            data-closed=""
+            hidden=""
+            style="display: none;"
+          >
+            <div
+              aria-hidden="true"
+              data-closed=""
+              hidden=""
+              style="display: none;"
+            >
+              Sidebar
+            </div>
+          </div>
+        </div>
+      `)
+    })
+
     it('should be possible to change the underlying DOM tag of the Transition.Child components', () => {
       const { container } = render(
         <div className="My Page">
@@ -253,8 +531,8 @@ describe('Setup API', () => {
       const { container } = render(
         <div className="My Page">
           <Transition show={true}>
-            <Transition.Child>{ref => <aside ref={ref}>Sidebar</aside>}</Transition.Child>
-            <Transition.Child>{ref => <section ref={ref}>Content</section>}</Transition.Child>
+            <Transition.Child>{({ ref }) => <aside ref={ref}>Sidebar</aside>}</Transition.Child>
+            <Transition.Child>{({ ref }) => <section ref={ref}>Content</section>}</Transition.Child>
           </Transition>
         </div>
       )
@@ -279,10 +557,12 @@ describe('Setup API', () => {
       const { container } = render(
         <div className="My Page">
           <Transition show={true}>
-            {ref => (
+            {({ ref }) => (
               <article ref={ref}>
-                <Transition.Child>{ref => <aside ref={ref}>Sidebar</aside>}</Transition.Child>
-                <Transition.Child>{ref => <section ref={ref}>Content</section>}</Transition.Child>
+                <Transition.Child>{({ ref }) => <aside ref={ref}>Sidebar</aside>}</Transition.Child>
+                <Transition.Child>
+                  {({ ref }) => <section ref={ref}>Content</section>}
+                </Transition.Child>
               </article>
             )}
           </Transition>
@@ -314,7 +594,7 @@ describe('Setup API', () => {
           render(
             <div className="My Page">
               <Transition show={true}>
-                <Transition.Child>{ref => <aside ref={ref}>Sidebar</aside>}</Transition.Child>
+                <Transition.Child>{({ ref }) => <aside ref={ref}>Sidebar</aside>}</Transition.Child>
                 <Transition.Child>{() => <section>Content</section>}</Transition.Child>
               </Transition>
             </div>
@@ -336,9 +616,11 @@ describe('Setup API', () => {
               <Transition show={true}>
                 {() => (
                   <article>
-                    <Transition.Child>{ref => <aside ref={ref}>Sidebar</aside>}</Transition.Child>
                     <Transition.Child>
-                      {ref => <section ref={ref}>Content</section>}
+                      {({ ref }) => <aside ref={ref}>Sidebar</aside>}
+                    </Transition.Child>
+                    <Transition.Child>
+                      {({ ref }) => <section ref={ref}>Content</section>}
                     </Transition.Child>
                   </article>
                 )}
@@ -394,11 +676,98 @@ describe('Setup API', () => {
       expect(container.firstChild).toMatchInlineSnapshot(`
         <div
           class="enter enter-from"
+          data-enter=""
+        >
+          Children
+        </div>
+      `)
+    })
+
+    it('should be possible to pass arrays and objects as classes', () => {
+      const { container } = render(
+        <Transition
+          show={true}
+          appear={true}
+          className={['panel', { 'panel-active': true, 'panel-disabled': false }]}
+          enter={['enter', { 'enter-slow': true, 'enter-fast': false }]}
+          enterFrom={{ 'enter-from': true }}
+          enterTo={['enter-to']}
+        >
+          Children
+        </Transition>
+      )
+
+      expect(container.firstChild).toMatchInlineSnapshot(`
+        <div
+          class="panel panel-active enter enter-slow enter-from"
+          data-enter=""
         >
           Children
         </div>
       `)
     })
+
+    it(
+      'should not restart the transition when new arrays are passed on every render',
+      suppressConsoleLogs(async () => {
+        const enterDuration = 100
+
+        function Example() {
+          const [show, setShow] = React.useState(false)
+          const [, forceRender] = React.useReducer(count => count + 1, 0)
+
+          return (
+            <>
+              <style>{`.enter { transition-duration: ${enterDuration}ms; }`}</style>
+
+              <Transition show={show} enter={['enter']} enterFrom={['from']} enterTo={['to']}>
+                Children
+              </Transition>
+
+              <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+                Toggle
+              </button>
+              <button data-testid="rerender" onClick={forceRender}>
+                Rerender
+              </button>
+            </>
+          )
+        }
+
+        const timeline = await executeTimeline(<Example />, [
+          // Toggle to show, but don't wait for the transition to finish
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return [null, null]
+          },
+
+          // Render again mid-transition, with new arrays of classes
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('rerender'))
+            return [enterDuration]
+          },
+        ])
+
+        expect(timeline).toMatchInlineSnapshot(`
+          "Render 1:
+              +   <div
+              +     class=\\"enter from\\"
+              +     data-enter=\\"\\"
+              +   >
+              +     Children
+              +   </div>
+
+          Render 2:
+              -     class=\\"enter from\\"
+              +     class=\\"enter to\\"
+
+          Render 3: Transition took at least 100ms (yes)
+              -     class=\\"enter to\\"
+              -     data-enter=\\"\\"
+              +     class=\\"\\""
+        `)
+      })
+    )
   })
 })
 
@@ -437,6 +806,7 @@ describe('Transitions', () => {
         "Render 1:
             +   <div
             +     class=\\"enter from\\"
+            +     data-enter=\\"\\"
             +   >
             +     <span>
             +       Hello!
@@ -449,6 +819,7 @@ describe('Transitions', () => {
 
         Render 3: Transition took at least 50ms (yes)
             -     class=\\"enter to\\"
+            -     data-enter=\\"\\"
             +     class=\\"\\""
       `)
     })
@@ -487,6 +858,7 @@ describe('Transitions', () => {
         "Render 1:
             +   <div
             +     class=\\"enter from\\"
+            +     data-enter=\\"\\"
             +   >
             +     <span>
             +       Hello!
@@ -499,6 +871,7 @@ describe('Transitions', () => {
 
         Render 3: Transition took at least 50ms (yes)
             -     class=\\"enter to\\"
+            -     data-enter=\\"\\"
             +     class=\\"\\""
       `)
     })
@@ -536,6 +909,7 @@ describe('Transitions', () => {
         "Render 1:
             +   <div
             +     class=\\"enter from\\"
+            +     data-enter=\\"\\"
             +   >
             +     <span>
             +       Hello!
@@ -548,6 +922,7 @@ describe('Transitions', () => {
 
         Render 3: Transition took at least 50ms (yes)
             -     class=\\"enter to\\"
+            -     data-enter=\\"\\"
             +     class=\\"\\""
       `)
     })
@@ -588,6 +963,7 @@ describe('Transitions', () => {
               -   <div>
               +   <div
               +     class=\\"leave from\\"
+              +     data-leave=\\"\\"
               +   >
 
           Render 2:
@@ -597,6 +973,7 @@ describe('Transitions', () => {
           Render 3: Transition took at least 50ms (yes)
               -   <div
               -     class=\\"leave to\\"
+              -     data-leave=\\"\\"
               -   >
               -     <span>
               -       Hello!
@@ -657,6 +1034,7 @@ describe('Transitions', () => {
           "Render 1:
               +   <div
               +     class=\\"enter enter-from\\"
+              +     data-enter=\\"\\"
               +   >
               +     <span>
               +       Hello!
@@ -669,11 +1047,13 @@ describe('Transitions', () => {
 
           Render 3: Transition took at least 50ms (yes)
               -     class=\\"enter enter-to\\"
+              -     data-enter=\\"\\"
               +     class=\\"\\"
 
           Render 4:
               -     class=\\"\\"
               +     class=\\"leave leave-from\\"
+              +     data-leave=\\"\\"
 
           Render 5:
               -     class=\\"leave leave-from\\"
@@ -682,6 +1062,7 @@ describe('Transitions', () => {
           Render 6: Transition took at least 75ms (yes)
               -   <div
               -     class=\\"leave leave-to\\"
+              -     data-leave=\\"\\"
               -   >
               -     <span>
               -       Hello!
@@ -690,30 +1071,31 @@ describe('Transitions', () => {
         `)
       })
     )
-  })
 
-  describe('nested transitions', () => {
     it(
-      'should not unmount the whole tree when some children are still transitioning',
+      'should continue from the current position when the transition gets interrupted',
       suppressConsoleLogs(async () => {
-        const slowLeaveDuration = 150
-        const fastLeaveDuration = 50
+        const enterDuration = 100
+        const leaveDuration = 75
 
         function Example() {
-          const [show, setShow] = React.useState(true)
+          const [show, setShow] = React.useState(false)
 
           return (
             <>
-              <style>{`.leave-slow { transition-duration: ${slowLeaveDuration}ms; } .leave-from { opacity: 100%; } .leave-to { opacity: 0%; }`}</style>
-              <style>{`.leave-fast { transition-duration: ${fastLeaveDuration}ms; }`}</style>
+              <style>{`.enter { transition-property: opacity; transition-duration: ${enterDuration}ms; } .enter-from { opacity: 0; } .enter-to { opacity: 1; }`}</style>
+              <style>{`.leave { transition-property: opacity; transition-duration: ${leaveDuration}ms; } .leave-from { opacity: 1; } .leave-to { opacity: 0; }`}</style>
 
-              <Transition show={show}>
-                <Transition.Child leave="leave-fast" leaveFrom="leave-from" leaveTo="leave-to">
-                  I am fast
-                </Transition.Child>
-                <Transition.Child leave="leave-slow" leaveFrom="leave-from" leaveTo="leave-to">
-                  I am slow
-                </Transition.Child>
+              <Transition
+                show={show}
+                enter="enter"
+                enterFrom="enter-from"
+                enterTo="enter-to"
+                leave="leave"
+                leaveFrom="leave-from"
+                leaveTo="leave-to"
+              >
+                <span>Hello!</span>
               </Transition>
 
               <button data-testid="toggle" onClick={() => setShow(v => !v)}>
@@ -724,80 +1106,86 @@ describe('Transitions', () => {
         }
 
         const timeline = await executeTimeline(<Example />, [
-          // Toggle to hide
+          // Toggle to show, but don't wait for the transition to finish
           ({ getByTestId }) => {
             fireEvent.click(getByTestId('toggle'))
-            return [
-              null, // Initial render
-              null, // Setup leave classes
-              fastLeaveDuration, // Done with fast leave
-              slowLeaveDuration - fastLeaveDuration, // Done with slow leave (which starts at the same time, but it is compaired with previous render snapshot so we have to subtract those)
-            ]
+            return [null, null]
+          },
+
+          // Toggle to hide mid-transition
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return executeTimeline.fullTransition(leaveDuration)
           },
         ])
 
         expect(timeline).toMatchInlineSnapshot(`
           "Render 1:
-              -     <div>
-              +     <div
-              +       class=\\"leave-fast leave-from\\"
-              +     >
-              ---
-              -     <div>
-              +     <div
-              +       class=\\"leave-slow leave-from\\"
-              +     >
+              +   <div
+              +     class=\\"enter enter-from\\"
+              +     data-enter=\\"\\"
+              +   >
+              +     <span>
+              +       Hello!
+              +     </span>
+              +   </div>
 
           Render 2:
-              -       class=\\"leave-fast leave-from\\"
-              +       class=\\"leave-fast leave-to\\"
-              ---
-              -       class=\\"leave-slow leave-from\\"
-              +       class=\\"leave-slow leave-to\\"
+              -     class=\\"enter enter-from\\"
+              +     class=\\"enter enter-to\\"
 
-          Render 3: Transition took at least 50ms (yes)
-              -       class=\\"leave-fast leave-to\\"
-              -     >
-              -       I am fast
-              -     </div>
-              -     <div
+          Render 3:
+              -     class=\\"enter enter-to\\"
+              -     data-enter=\\"\\"
+              +     class=\\"leave leave-from\\"
+              +     data-leave=\\"\\"
+              +     style=\\"opacity: 1;\\"
 
-          Render 4: Transition took at least 100ms (yes)
-              -   <div>
-              -     <div
-              -       class=\\"leave-slow leave-to\\"
-              -     >
-              -       I am slow
-              -     </div>
+          Render 4:
+              -     class=\\"leave leave-from\\"
+              +     class=\\"leave leave-to\\"
+              ---
+              -     style=\\"opacity: 1;\\"
+              +     style=\\"\\"
+
+          Render 5: Transition took at least 75ms (yes)
+              -   <div
+              -     class=\\"leave leave-to\\"
+              -     data-leave=\\"\\"
+              -     style=\\"\\"
+              -   >
+              -     <span>
+              -       Hello!
+              -     </span>
               -   </div>"
         `)
       })
     )
 
     it(
-      'should not unmount the whole tree when some children are still transitioning',
+      'should continue from the current position when toggling rapidly',
       suppressConsoleLogs(async () => {
-        const slowLeaveDuration = 150
-        const fastLeaveDuration = 50
+        const enterDuration = 100
+        const leaveDuration = 75
 
         function Example() {
-          const [show, setShow] = React.useState(true)
+          const [show, setShow] = React.useState(false)
 
           return (
             <>
-              <style>{`.leave-slow { transition-duration: ${slowLeaveDuration}ms; } .leave-from { opacity: 100%; } .leave-to { opacity: 0%; }`}</style>
-              <style>{`.leave-fast { transition-duration: ${fastLeaveDuration}ms; }`}</style>
+              <style>{`.enter { transition-property: opacity; transition-duration: ${enterDuration}ms; } .enter-from { opacity: 0; } .enter-to { opacity: 1; }`}</style>
+              <style>{`.leave { transition-property: opacity; transition-duration: ${leaveDuration}ms; } .leave-from { opacity: 1; } .leave-to { opacity: 0; }`}</style>
 
-              <Transition show={show}>
-                <Transition.Child leave="leave-fast" leaveFrom="leave-from" leaveTo="leave-to">
-                  <span>I am fast</span>
-                  <Transition show={show} leave="leave-slow">
-                    I am my own root component and I don't talk to the parent
-                  </Transition>
-                </Transition.Child>
-                <Transition.Child leave="leave-slow" leaveFrom="leave-from" leaveTo="leave-to">
-                  I am slow
-                </Transition.Child>
+              <Transition
+                show={show}
+                enter="enter"
+                enterFrom="enter-from"
+                enterTo="enter-to"
+                leave="leave"
+                leaveFrom="leave-from"
+                leaveTo="leave-to"
+              >
+                <span>Hello!</span>
               </Transition>
 
               <button data-testid="toggle" onClick={() => setShow(v => !v)}>
@@ -808,66 +1196,2524 @@ describe('Transitions', () => {
         }
 
         const timeline = await executeTimeline(<Example />, [
-          // Toggle to hide
+          // Toggle to show, but don't wait for the transition to finish
           ({ getByTestId }) => {
             fireEvent.click(getByTestId('toggle'))
-            return [
-              null, // Initial render
-              null, // Setup leave classes
-              fastLeaveDuration, // Done with fast leave
-              slowLeaveDuration - fastLeaveDuration, // Done with slow leave (which starts at the same time, but it is compaired with previous render snapshot so we have to subtract those)
-            ]
+            return [null, null]
+          },
+
+          // Toggle to hide and immediately back to show, before the leave transition even started
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            fireEvent.click(getByTestId('toggle'))
+            return executeTimeline.fullTransition(enterDuration)
           },
         ])
 
         expect(timeline).toMatchInlineSnapshot(`
           "Render 1:
-              -     <div>
-              +     <div
-              +       class=\\"leave-fast leave-from\\"
-              +     >
+              +   <div
+              +     class=\\"enter enter-from\\"
+              +     data-enter=\\"\\"
+              +   >
+              +     <span>
+              +       Hello!
+              +     </span>
+              +   </div>
+
+          Render 2:
+              -     class=\\"enter enter-from\\"
+              +     class=\\"enter enter-to\\"
+
+          Render 3:
+              -     class=\\"enter enter-to\\"
+              +     class=\\"enter enter-from\\"
               ---
-              -       <div>
-              +       <div
-              +         class=\\"leave-slow\\"
-              +       >
+              +     style=\\"opacity: 1;\\"
+
+          Render 4:
+              -     class=\\"enter enter-from\\"
+              +     class=\\"enter enter-to\\"
               ---
-              -     <div>
-              +     <div
-              +       class=\\"leave-slow leave-from\\"
-              +     >
+              -     style=\\"opacity: 1;\\"
+              +     style=\\"\\"
+
+          Render 5: Transition took at least 100ms (yes)
+              -     class=\\"enter enter-to\\"
+              -     data-enter=\\"\\"
+              +     class=\\"\\""
+        `)
+      })
+    )
+
+    it(
+      'should apply the inline styles alongside the classes',
+      suppressConsoleLogs(async () => {
+        const enterDuration = 50
+        const leaveDuration = 75
+
+        function Example() {
+          const [show, setShow] = React.useState(false)
+
+          return (
+            <>
+              <style>{`.enter { transition-duration: ${enterDuration}ms; } .leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+              <Transition
+                show={show}
+                enter="enter"
+                enterFrom="enter-from"
+                enterTo="enter-to"
+                enterFromStyle={{ height: 0 }}
+                enterToStyle={{ height: 120 }}
+                leave="leave"
+                leaveFrom="leave-from"
+                leaveTo="leave-to"
+                leaveFromStyle={{ height: 120 }}
+                leaveToStyle={{ height: 0, opacity: 0 }}
+              >
+                <span>Hello!</span>
+              </Transition>
+
+              <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+                Toggle
+              </button>
+            </>
+          )
+        }
+
+        const timeline = await executeTimeline(<Example />, [
+          // Toggle to show
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return executeTimeline.fullTransition(enterDuration)
+          },
+
+          // Toggle to hide
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return executeTimeline.fullTransition(leaveDuration)
+          },
+        ])
+
+        expect(timeline).toMatchInlineSnapshot(`
+          "Render 1:
+              +   <div
+              +     class=\\"enter enter-from\\"
+              +     data-enter=\\"\\"
+              +     style=\\"height: 0px;\\"
+              +   >
+              +     <span>
+              +       Hello!
+              +     </span>
+              +   </div>
 
           Render 2:
-              -       class=\\"leave-fast leave-from\\"
-              +       class=\\"leave-fast leave-to\\"
+              -     class=\\"enter enter-from\\"
+              +     class=\\"enter enter-to\\"
               ---
-              -       class=\\"leave-slow leave-from\\"
-              +       class=\\"leave-slow leave-to\\"
+              -     style=\\"height: 0px;\\"
+              +     style=\\"height: 120px;\\"
 
           Render 3: Transition took at least 50ms (yes)
-              -       class=\\"leave-fast leave-to\\"
-              -     >
-              -       <span>
-              -         I am fast
-              -       </span>
-              -       <div
-              -         class=\\"leave-slow\\"
-              -       >
-              -         I am my own root component and I don't talk to the parent
-              -       </div>
-              -     </div>
-              -     <div
+              -     class=\\"enter enter-to\\"
+              -     data-enter=\\"\\"
+              -     style=\\"height: 120px;\\"
+              +     class=\\"\\"
+              +     style=\\"\\"
 
-          Render 4: Transition took at least 100ms (yes)
-              -   <div>
-              -     <div
-              -       class=\\"leave-slow leave-to\\"
-              -     >
-              -       I am slow
-              -     </div>
+          Render 4:
+              -     class=\\"\\"
+              -     style=\\"\\"
+              +     class=\\"leave leave-from\\"
+              +     data-leave=\\"\\"
+              +     style=\\"height: 120px;\\"
+
+          Render 5:
+              -     class=\\"leave leave-from\\"
+              +     class=\\"leave leave-to\\"
+              ---
+              -     style=\\"height: 120px;\\"
+              +     style=\\"height: 0px; opacity: 0;\\"
+
+          Render 6: Transition took at least 75ms (yes)
+              -   <div
+              -     class=\\"leave leave-to\\"
+              -     data-leave=\\"\\"
+              -     style=\\"height: 0px; opacity: 0;\\"
+              -   >
+              -     <span>
+              -       Hello!
+              -     </span>
               -   </div>"
         `)
       })
     )
+
+    it(
+      'should continue from the current position when a transition with inline styles gets interrupted',
+      suppressConsoleLogs(async () => {
+        const enterDuration = 100
+        const leaveDuration = 75
+
+        function Example() {
+          const [show, setShow] = React.useState(false)
+
+          return (
+            <>
+              <style>{`.enter { transition-property: height; transition-duration: ${enterDuration}ms; } .leave { transition-property: height; transition-duration: ${leaveDuration}ms; }`}</style>
+
+              <Transition
+                show={show}
+                enter="enter"
+                enterFromStyle={{ height: 0 }}
+                enterToStyle={{ height: 120 }}
+                leave="leave"
+                leaveFromStyle={{ height: 120 }}
+                leaveToStyle={{ height: 0 }}
+              >
+                <span>Hello!</span>
+              </Transition>
+
+              <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+                Toggle
+              </button>
+            </>
+          )
+        }
+
+        const timeline = await executeTimeline(<Example />, [
+          // Toggle to show, but don't wait for the transition to finish
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return [null, null]
+          },
+
+          // Toggle to hide mid-transition
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return executeTimeline.fullTransition(leaveDuration)
+          },
+        ])
+
+        expect(timeline).toMatchInlineSnapshot(`
+          "Render 1:
+              +   <div
+              +     class=\\"enter\\"
+              +     data-enter=\\"\\"
+              +     style=\\"height: 0px;\\"
+              +   >
+              +     <span>
+              +       Hello!
+              +     </span>
+              +   </div>
+
+          Render 2:
+              -     style=\\"height: 0px;\\"
+              +     style=\\"height: 120px;\\"
+
+          Render 3:
+              -     class=\\"enter\\"
+              -     data-enter=\\"\\"
+              +     class=\\"leave\\"
+              +     data-leave=\\"\\"
+
+          Render 4:
+              -     style=\\"height: 120px;\\"
+              +     style=\\"height: 0px;\\"
+
+          Render 5: Transition took at least 75ms (yes)
+              -   <div
+              -     class=\\"leave\\"
+              -     data-leave=\\"\\"
+              -     style=\\"height: 0px;\\"
+              -   >
+              -     <span>
+              -       Hello!
+              -     </span>
+              -   </div>"
+        `)
+      })
+    )
+
+    it(
+      'should hide instead of unmount when unmount is disabled',
+      suppressConsoleLogs(async () => {
+        const enterDuration = 50
+        const leaveDuration = 75
+
+        function Example() {
+          const [show, setShow] = React.useState(true)
+
+          return (
+            <>
+              <style>{`.enter { transition-duration: ${enterDuration}ms; } .leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+              <Transition
+                show={show}
+                unmount={false}
+                enter="enter"
+                enterFrom="enter-from"
+                enterTo="enter-to"
+                leave="leave"
+                leaveFrom="leave-from"
+                leaveTo="leave-to"
+              >
+                <input defaultValue="Some state" />
+              </Transition>
+
+              <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+                Toggle
+              </button>
+            </>
+          )
+        }
+
+        const timeline = await executeTimeline(<Example />, [
+          // Toggle to hide
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return executeTimeline.fullTransition(leaveDuration)
+          },
+
+          // Toggle to show
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return executeTimeline.fullTransition(enterDuration)
+          },
+        ])
+
+        expect(timeline).toMatchInlineSnapshot(`
+          "Render 1:
+              -   <div>
+              +   <div
+              +     class=\\"leave leave-from\\"
+              +     data-leave=\\"\\"
+              +   >
+
+          Render 2:
+              -     class=\\"leave leave-from\\"
+              +     class=\\"leave leave-to\\"
+
+          Render 3: Transition took at least 75ms (yes)
+              -     class=\\"leave leave-to\\"
+              -     data-leave=\\"\\"
+              +     aria-hidden=\\"true\\"
+              +     class=\\"\\"
+              +     data-closed=\\"\\"
+              +     hidden=\\"\\"
+              +     style=\\"display: none;\\"
+
+          Render 4:
+              -     aria-hidden=\\"true\\"
+              -     class=\\"\\"
+              -     data-closed=\\"\\"
+              -     hidden=\\"\\"
+              -     style=\\"display: none;\\"
+              +     class=\\"enter enter-from\\"
+              +     data-enter=\\"\\"
+              +     style=\\"\\"
+
+          Render 5:
+              -     class=\\"enter enter-from\\"
+              +     class=\\"enter enter-to\\"
+
+          Render 6: Transition took at least 50ms (yes)
+              -     class=\\"enter enter-to\\"
+              -     data-enter=\\"\\"
+              +     class=\\"\\""
+        `)
+      })
+    )
+  })
+
+  describe('nested transitions', () => {
+    it(
+      'should not unmount the whole tree when some children are still transitioning',
+      suppressConsoleLogs(async () => {
+        const slowLeaveDuration = 150
+        const fastLeaveDuration = 50
+
+        function Example() {
+          const [show, setShow] = React.useState(true)
+
+          return (
+            <>
+              <style>{`.leave-slow { transition-duration: ${slowLeaveDuration}ms; } .leave-from { opacity: 100%; } .leave-to { opacity: 0%; }`}</style>
+              <style>{`.leave-fast { transition-duration: ${fastLeaveDuration}ms; }`}</style>
+
+              <Transition show={show}>
+                <Transition.Child leave="leave-fast" leaveFrom="leave-from" leaveTo="leave-to">
+                  I am fast
+                </Transition.Child>
+                <Transition.Child leave="leave-slow" leaveFrom="leave-from" leaveTo="leave-to">
+                  I am slow
+                </Transition.Child>
+              </Transition>
+
+              <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+                Toggle
+              </button>
+            </>
+          )
+        }
+
+        const timeline = await executeTimeline(<Example />, [
+          // Toggle to hide
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return [
+              null, // Initial render
+              null, // Setup leave classes
+              fastLeaveDuration, // Done with fast leave
+              slowLeaveDuration - fastLeaveDuration, // Done with slow leave (which starts at the same time, but it is compaired with previous render snapshot so we have to subtract those)
+            ]
+          },
+        ])
+
+        expect(timeline).toMatchInlineSnapshot(`
+          "Render 1:
+              -   <div>
+              -     <div>
+              +   <div
+              +     data-leave=\\"\\"
+              +   >
+              +     <div
+              +       class=\\"leave-fast leave-from\\"
+              +       data-leave=\\"\\"
+              +     >
+              ---
+              -     <div>
+              +     <div
+              +       class=\\"leave-slow leave-from\\"
+              +       data-leave=\\"\\"
+              +     >
+
+          Render 2:
+              -       class=\\"leave-fast leave-from\\"
+              +       class=\\"leave-fast leave-to\\"
+              ---
+              -       class=\\"leave-slow leave-from\\"
+              +       class=\\"leave-slow leave-to\\"
+
+          Render 3: Transition took at least 50ms (yes)
+              -       class=\\"leave-fast leave-to\\"
+              -       data-leave=\\"\\"
+              -     >
+              -       I am fast
+              -     </div>
+              -     <div
+
+          Render 4: Transition took at least 100ms (yes)
+              -   <div
+              -     data-leave=\\"\\"
+              -   >
+              -     <div
+              -       class=\\"leave-slow leave-to\\"
+              -       data-leave=\\"\\"
+              -     >
+              -       I am slow
+              -     </div>
+              -   </div>"
+        `)
+      })
+    )
+
+    it(
+      'should not unmount the whole tree when some children are still transitioning',
+      suppressConsoleLogs(async () => {
+        const slowLeaveDuration = 150
+        const fastLeaveDuration = 50
+
+        function Example() {
+          const [show, setShow] = React.useState(true)
+
+          return (
+            <>
+              <style>{`.leave-slow { transition-duration: ${slowLeaveDuration}ms; } .leave-from { opacity: 100%; } .leave-to { opacity: 0%; }`}</style>
+              <style>{`.leave-fast { transition-duration: ${fastLeaveDuration}ms; }`}</style>
+
+              <Transition show={show}>
+                <Transition.Child leave="leave-fast" leaveFrom="leave-from" leaveTo="leave-to">
+                  <span>I am fast</span>
+                  <Transition show={show} leave="leave-slow">
+                    I am my own root component and I don't talk to the parent
+                  </Transition>
+                </Transition.Child>
+                <Transition.Child leave="leave-slow" leaveFrom="leave-from" leaveTo="leave-to">
+                  I am slow
+                </Transition.Child>
+              </Transition>
+
+              <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+                Toggle
+              </button>
+            </>
+          )
+        }
+
+        const timeline = await executeTimeline(<Example />, [
+          // Toggle to hide
+          ({ getByTestId }) => {
+            fireEvent.click(getByTestId('toggle'))
+            return [
+              null, // Initial render
+              null, // Setup leave classes
+              fastLeaveDuration, // Done with fast leave
+              slowLeaveDuration - fastLeaveDuration, // Done with slow leave (which starts at the same time, but it is compaired with previous render snapshot so we have to subtract those)
+            ]
+          },
+        ])
+
+        expect(timeline).toMatchInlineSnapshot(`
+          "Render 1:
+              -   <div>
+              -     <div>
+              +   <div
+              +     data-leave=\\"\\"
+              +   >
+              +     <div
+              +       class=\\"leave-fast leave-from\\"
+              +       data-leave=\\"\\"
+              +     >
+              ---
+              -       <div>
+              +       <div
+              +         class=\\"leave-slow\\"
+              +         data-leave=\\"\\"
+              +       >
+              ---
+              -     <div>
+              +     <div
+              +       class=\\"leave-slow leave-from\\"
+              +       data-leave=\\"\\"
+              +     >
+
+          Render 2:
+              -       class=\\"leave-fast leave-from\\"
+              +       class=\\"leave-fast leave-to\\"
+              ---
+              -       class=\\"leave-slow leave-from\\"
+              +       class=\\"leave-slow leave-to\\"
+
+          Render 3: Transition took at least 50ms (yes)
+              -       class=\\"leave-fast leave-to\\"
+              -       data-leave=\\"\\"
+              -     >
+              -       <span>
+              -         I am fast
+              -       </span>
+              -       <div
+              -         class=\\"leave-slow\\"
+              -         data-leave=\\"\\"
+              -       >
+              -         I am my own root component and I don't talk to the parent
+              -       </div>
+              -     </div>
+              -     <div
+
+          Render 4: Transition took at least 100ms (yes)
+              -   <div
+              -     data-leave=\\"\\"
+              -   >
+              -     <div
+              -       class=\\"leave-slow leave-to\\"
+              -       data-leave=\\"\\"
+              -     >
+              -       I am slow
+              -     </div>
+              -   </div>"
+        `)
+      })
+    )
+  })
+})
+
+describe('Transition state', () => {
+  it(
+    'should pass the current state to the render prop',
+    suppressConsoleLogs(async () => {
+      const enterDuration = 50
+      const leaveDuration = 75
+
+      const states: string[] = []
+
+      function Example() {
+        const [show, setShow] = React.useState(false)
+
+        return (
+          <>
+            <style>{`.enter { transition-duration: ${enterDuration}ms; } .leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            <Transition show={show} unmount={false} enter="enter" leave="leave">
+              {({ ref, state }) => {
+                if (states[states.length - 1] !== state) states.push(state)
+                return <span ref={ref}>Hello!</span>
+              }}
+            </Transition>
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Toggle to show
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(enterDuration)
+        },
+
+        // Toggle to hide
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+      ])
+
+      expect(states).toEqual(['closed', 'entering', 'entered', 'leaving', 'closed'])
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            -     aria-hidden=\\"true\\"
+            -     data-closed=\\"\\"
+            -     hidden=\\"\\"
+            -     style=\\"display: none;\\"
+            +     class=\\"enter\\"
+            +     data-enter=\\"\\"
+            +     style=\\"\\"
+
+        Render 2:
+            -     class=\\"enter\\"
+            -     data-enter=\\"\\"
+            +     class=\\"\\"
+
+        Render 3: Transition took at least 50ms (yes)
+            -     class=\\"\\"
+            +     class=\\"leave\\"
+            +     data-leave=\\"\\"
+
+        Render 4:
+            -     class=\\"leave\\"
+            -     data-leave=\\"\\"
+            -     style=\\"\\"
+            +     aria-hidden=\\"true\\"
+            +     class=\\"\\"
+            +     data-closed=\\"\\"
+            +     hidden=\\"\\"
+            +     style=\\"display: none;\\""
+      `)
+    })
+  )
+})
+
+describe('Events', () => {
+  it(
+    'should fire the lifecycle events in the correct order',
+    suppressConsoleLogs(async () => {
+      const enterDuration = 50
+      const leaveDuration = 75
+
+      const calls: string[] = []
+
+      function Example() {
+        const [show, setShow] = React.useState(false)
+
+        return (
+          <>
+            <style>{`.enter { transition-duration: ${enterDuration}ms; } .leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            <Transition
+              show={show}
+              enter="enter"
+              leave="leave"
+              beforeEnter={() => calls.push('beforeEnter')}
+              afterEnter={() => calls.push('afterEnter')}
+              beforeLeave={() => calls.push('beforeLeave')}
+              afterLeave={() => calls.push('afterLeave')}
+              onCancel={() => calls.push('onCancel')}
+            >
+              <span>Hello!</span>
+            </Transition>
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      await executeTimeline(<Example />, [
+        // Toggle to show
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(enterDuration)
+        },
+
+        // Toggle to hide
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+      ])
+
+      expect(calls).toEqual(['beforeEnter', 'afterEnter', 'beforeLeave', 'afterLeave'])
+    })
+  )
+
+  it(
+    'should fire the cancel event when the transition gets interrupted',
+    suppressConsoleLogs(async () => {
+      const enterDuration = 50
+
+      const calls: string[] = []
+
+      function Example() {
+        const [show, setShow] = React.useState(false)
+
+        return (
+          <>
+            <style>{`.enter { transition-duration: ${enterDuration}ms; }`}</style>
+
+            <Transition
+              show={show}
+              enter="enter"
+              beforeEnter={() => calls.push('beforeEnter')}
+              afterEnter={() => calls.push('afterEnter')}
+              beforeLeave={() => calls.push('beforeLeave')}
+              afterLeave={() => calls.push('afterLeave')}
+              onCancel={() => calls.push('onCancel')}
+            >
+              <span>Hello!</span>
+            </Transition>
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      await executeTimeline(<Example />, [
+        // Toggle to show, and immediately toggle to hide
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(enterDuration)
+        },
+      ])
+
+      expect(calls).toEqual(['beforeEnter', 'onCancel', 'beforeLeave', 'afterLeave'])
+    })
+  )
+})
+
+describe('Reduced motion', () => {
+  function mockMatchMedia(matches: boolean) {
+    const listeners: (() => void)[] = []
+    const mediaQuery = {
+      matches,
+      addEventListener: (_: string, listener: () => void) => listeners.push(listener),
+      removeEventListener: jest.fn(),
+    }
+
+    window.matchMedia = jest.fn().mockReturnValue(mediaQuery)
+
+    return (matches: boolean) => {
+      mediaQuery.matches = matches
+      listeners.forEach(listener => listener())
+    }
+  }
+
+  afterEach(() => {
+    // @ts-expect-error JSDOM doesn't implement `matchMedia`, so we clean up our mock.
+    delete window.matchMedia
+  })
+
+  function Example(props: Omit<React.ComponentProps<typeof Transition>, 'show'>) {
+    const [show, setShow] = React.useState(false)
+
+    return (
+      <>
+        <style>{`.enter { transition-duration: 50ms; } .enter-reduced { transition-duration: 25ms; }`}</style>
+
+        <Transition show={show} enter="enter" enterFrom="from" enterTo="to" {...props}>
+          <span>Hello!</span>
+        </Transition>
+
+        <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+          Toggle
+        </button>
+      </>
+    )
+  }
+
+  it('should skip the transition when the user prefers reduced motion', async () => {
+    mockMatchMedia(true)
+
+    const timeline = await executeTimeline(<Example />, [
+      // Toggle to show
+      ({ getByTestId }) => {
+        fireEvent.click(getByTestId('toggle'))
+        return [null]
+      },
+    ])
+
+    expect(timeline).toMatchInlineSnapshot(`
+      "Render 1:
+          +   <div>
+          +     <span>
+          +       Hello!
+          +     </span>
+          +   </div>"
+    `)
+  })
+
+  it('should use the reduced classes when the user prefers reduced motion', async () => {
+    mockMatchMedia(true)
+
+    const timeline = await executeTimeline(<Example enterReduced="enter-reduced" />, [
+      // Toggle to show
+      ({ getByTestId }) => {
+        fireEvent.click(getByTestId('toggle'))
+        return executeTimeline.fullTransition(25)
+      },
+    ])
+
+    expect(timeline).toMatchInlineSnapshot(`
+      "Render 1:
+          +   <div
+          +     class=\\"enter-reduced from\\"
+          +     data-enter=\\"\\"
+          +   >
+          +     <span>
+          +       Hello!
+          +     </span>
+          +   </div>
+
+      Render 2:
+          -     class=\\"enter-reduced from\\"
+          +     class=\\"enter-reduced to\\"
+
+      Render 3: Transition took at least 25ms (yes)
+          -     class=\\"enter-reduced to\\"
+          -     data-enter=\\"\\"
+          +     class=\\"\\""
+    `)
+  })
+
+  it('should react to changes of the reduced motion preference', async () => {
+    const setPrefersReducedMotion = mockMatchMedia(false)
+
+    const timeline = await executeTimeline(<Example />, [
+      // Change the preference and toggle to show
+      ({ getByTestId }) => {
+        act(() => setPrefersReducedMotion(true))
+        fireEvent.click(getByTestId('toggle'))
+        return [null]
+      },
+    ])
+
+    expect(timeline).toMatchInlineSnapshot(`
+      "Render 1:
+          +   <div>
+          +     <span>
+          +       Hello!
+          +     </span>
+          +   </div>"
+    `)
+  })
+
+  it('should be possible to ignore the reduced motion preference', async () => {
+    mockMatchMedia(true)
+
+    const timeline = await executeTimeline(<Example reducedMotion="never" />, [
+      // Toggle to show
+      ({ getByTestId }) => {
+        fireEvent.click(getByTestId('toggle'))
+        return executeTimeline.fullTransition(50)
+      },
+    ])
+
+    expect(timeline).toMatchInlineSnapshot(`
+      "Render 1:
+          +   <div
+          +     class=\\"enter from\\"
+          +     data-enter=\\"\\"
+          +   >
+          +     <span>
+          +       Hello!
+          +     </span>
+          +   </div>
+
+      Render 2:
+          -     class=\\"enter from\\"
+          +     class=\\"enter to\\"
+
+      Render 3: Transition took at least 50ms (yes)
+          -     class=\\"enter to\\"
+          -     data-enter=\\"\\"
+          +     class=\\"\\""
+    `)
+  })
+
+  it('should be possible to always reduce motion using the TransitionConfig', async () => {
+    const timeline = await executeTimeline(
+      <TransitionConfig reducedMotion="always">
+        <Example />
+      </TransitionConfig>,
+      [
+        // Toggle to show
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return [null]
+        },
+      ]
+    )
+
+    expect(timeline).toMatchInlineSnapshot(`
+      "Render 1:
+          +   <div>
+          +     <span>
+          +       Hello!
+          +     </span>
+          +   </div>"
+    `)
+  })
+})
+
+describe('Transition.Group', () => {
+  it('should render the children without transitioning them initially', () => {
+    const { container } = render(
+      <Transition.Group as="ul">
+        {['a', 'b'].map(item => (
+          <Transition.Child key={item} as="li" enter="enter" enterFrom="from" enterTo="to">
+            {item}
+          </Transition.Child>
+        ))}
+      </Transition.Group>
+    )
+
+    expect(container.firstChild).toMatchInlineSnapshot(`
+      <ul>
+        <li>
+          a
+        </li>
+        <li>
+          b
+        </li>
+      </ul>
+    `)
+  })
+
+  it('should transition the children initially when appear is set to true', () => {
+    const { container } = render(
+      <Transition.Group as="ul" appear={true}>
+        {['a', 'b'].map(item => (
+          <Transition.Child key={item} as="li" enter="enter" enterFrom="from" enterTo="to">
+            {item}
+          </Transition.Child>
+        ))}
+      </Transition.Group>
+    )
+
+    expect(container.firstChild).toMatchInlineSnapshot(`
+      <ul>
+        <li
+          class="enter from"
+          data-enter=""
+        >
+          a
+        </li>
+        <li
+          class="enter from"
+          data-enter=""
+        >
+          b
+        </li>
+      </ul>
+    `)
+  })
+
+  it(
+    'should transition in new items and transition out removed items',
+    suppressConsoleLogs(async () => {
+      const enterDuration = 50
+      const leaveDuration = 75
+
+      function Example() {
+        const [items, setItems] = React.useState(['a', 'b', 'c'])
+
+        return (
+          <>
+            <style>{`.enter { transition-duration: ${enterDuration}ms; } .leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            <Transition.Group as="ul">
+              {items.map(item => (
+                <Transition.Child
+                  key={item}
+                  as="li"
+                  enter="enter"
+                  enterFrom="enter-from"
+                  enterTo="enter-to"
+                  leave="leave"
+                  leaveFrom="leave-from"
+                  leaveTo="leave-to"
+                >
+                  {item}
+                </Transition.Child>
+              ))}
+            </Transition.Group>
+
+            <button data-testid="add" onClick={() => setItems(items => [...items, 'd'])}>
+              Add
+            </button>
+            <button
+              data-testid="remove"
+              onClick={() => setItems(items => items.filter(item => item !== 'b'))}
+            >
+              Remove
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Add an item
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('add'))
+          return executeTimeline.fullTransition(enterDuration)
+        },
+
+        // Remove an item
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('remove'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            +     <li
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            +     >
+            +       d
+            +     </li>
+
+        Render 2:
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 3: Transition took at least 50ms (yes)
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\"
+
+        Render 4:
+            -     <li>
+            +     <li
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+            +     >
+
+        Render 5:
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 6: Transition took at least 75ms (yes)
+            -     <li
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            -     >
+            -       b
+            -     </li>"
+      `)
+    })
+  )
+
+  it(
+    'should transition the siblings to their new position using the move classes',
+    suppressConsoleLogs(async () => {
+      const leaveDuration = 50
+      const moveDuration = 75
+
+      // JSDOM doesn't do any layout, so we position the items below each other ourselves.
+      const spy = jest
+        .spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+        .mockImplementation(function(this: HTMLElement) {
+          const index = Array.from(this.parentElement?.children ?? []).indexOf(this)
+          return { top: index * 10, left: 0 } as DOMRect
+        })
+
+      function Example() {
+        const [items, setItems] = React.useState(['a', 'b'])
+
+        return (
+          <>
+            <style>{`.leave { transition-duration: ${leaveDuration}ms; } .move { transition-duration: ${moveDuration}ms; }`}</style>
+
+            <Transition.Group as="ul">
+              {items.map(item => (
+                <Transition.Child key={item} as="li" leave="leave" leaveTo="leave-to" move="move">
+                  {item}
+                </Transition.Child>
+              ))}
+            </Transition.Group>
+
+            <button data-testid="remove" onClick={() => setItems(['b'])}>
+              Remove
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Remove the first item, the second item will move up once the first one is gone
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('remove'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+
+        // Wait for the second item to move to its new position
+        () => [null, moveDuration],
+      ])
+
+      spy.mockRestore()
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            -     <li>
+            +     <li
+            +       class=\\"leave\\"
+            +       data-leave=\\"\\"
+            +     >
+
+        Render 2:
+            -       class=\\"leave\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 3: Transition took at least 50ms (yes)
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            +       style=\\"transform: translate(0px, 10px); transition-duration: 0s;\\"
+            ---
+            -       a
+            -     </li>
+            -     <li>
+
+        Render 4:
+            -       style=\\"transform: translate(0px, 10px); transition-duration: 0s;\\"
+            +       class=\\"move\\"
+            +       style=\\"\\"
+
+        Render 5: Transition took at least 75ms (yes)
+            -       class=\\"move\\"
+            +       class=\\"\\""
+      `)
+    })
+  )
+
+  it('should only measure the positions when the keyed children change', () => {
+    const spy = jest.spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+
+    function Example({ items, className }: { items: string[]; className: string }) {
+      return (
+        <Transition.Group as="ul" className={className}>
+          {items.map(item => (
+            <Transition.Child key={item} as="li" move="move">
+              {item}
+            </Transition.Child>
+          ))}
+        </Transition.Group>
+      )
+    }
+
+    const { rerender } = render(<Example items={['a', 'b']} className="list" />)
+
+    rerender(<Example items={['a', 'b']} className="other-list" />)
+    expect(spy).not.toHaveBeenCalled()
+
+    rerender(<Example items={['b', 'a']} className="other-list" />)
+    expect(spy).toHaveBeenCalled()
+
+    spy.mockRestore()
+  })
+
+  it(
+    'should transition an item back in when it is re-added while leaving',
+    suppressConsoleLogs(async () => {
+      const leaveDuration = 75
+
+      function Example() {
+        const [items, setItems] = React.useState(['a', 'b'])
+
+        return (
+          <>
+            <style>{`.leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            <Transition.Group as="ul">
+              {items.map(item => (
+                <Transition.Child
+                  key={item}
+                  as="li"
+                  leave="leave"
+                  leaveFrom="leave-from"
+                  leaveTo="leave-to"
+                >
+                  {item}
+                </Transition.Child>
+              ))}
+            </Transition.Group>
+
+            <button
+              data-testid="toggle"
+              onClick={() => setItems(items => (items.includes('b') ? ['a'] : ['a', 'b']))}
+            >
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Remove an item
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return [null, null]
+        },
+
+        // Re-add the item
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return [null, null]
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            -     <li>
+            +     <li
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+            +     >
+
+        Render 2:
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 3:
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            +       class=\\"\\"
+            +       data-enter=\\"\\"
+
+        Render 4:
+            -       data-enter=\\"\\""
+      `)
+    })
+  )
+})
+
+describe('Transition.Switch', () => {
+  const enterDuration = 50
+  const leaveDuration = 75
+
+  function Example(props: { mode?: 'out-in' | 'in-out' | 'simultaneous' }) {
+    const [page, setPage] = React.useState('a')
+
+    return (
+      <>
+        <style>{`.enter { transition-duration: ${enterDuration}ms; } .leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+        <Transition.Switch mode={props.mode}>
+          <Transition.Child
+            key={page}
+            enter="enter"
+            enterFrom="enter-from"
+            enterTo="enter-to"
+            leave="leave"
+            leaveFrom="leave-from"
+            leaveTo="leave-to"
+          >
+            {page}
+          </Transition.Child>
+        </Transition.Switch>
+
+        <button data-testid="next" onClick={() => setPage('b')}>
+          Next
+        </button>
+      </>
+    )
+  }
+
+  it('should render the child without transitioning it initially', () => {
+    const { container } = render(<Example />)
+
+    expect(container.firstChild?.nextSibling).toMatchInlineSnapshot(`
+      <div>
+        <div>
+          a
+        </div>
+      </div>
+    `)
+  })
+
+  it(
+    'should transition out the old child before transitioning in the new child',
+    suppressConsoleLogs(async () => {
+      const timeline = await executeTimeline(<Example mode="out-in" />, [
+        // Swap the child
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('next'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+
+        // Wait for the second transition
+        () => [null, enterDuration],
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            -     <div>
+            +     <div
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+            +     >
+
+        Render 2:
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 3: Transition took at least 75ms (yes)
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            ---
+            -       a
+            +       b
+
+        Render 4:
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 5: Transition took at least 50ms (yes)
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\""
+      `)
+    })
+  )
+
+  it(
+    'should transition in the new child before transitioning out the old child',
+    suppressConsoleLogs(async () => {
+      const timeline = await executeTimeline(<Example mode="in-out" />, [
+        // Swap the child
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('next'))
+          return executeTimeline.fullTransition(enterDuration)
+        },
+
+        // Wait for the second transition
+        () => [null, leaveDuration],
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            +     <div
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            +     >
+            +       b
+            +     </div>
+
+        Render 2:
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 3: Transition took at least 50ms (yes)
+            -     <div>
+            +     <div
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+            +     >
+            ---
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\"
+
+        Render 4:
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 5: Transition took at least 75ms (yes)
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            -     >
+            -       a
+            -     </div>
+            -     <div"
+      `)
+    })
+  )
+
+  it(
+    'should transition in the new child before transitioning out the old child when it is rendered by a component',
+    suppressConsoleLogs(async () => {
+      function Page(props: { children: React.ReactNode }) {
+        return (
+          <Transition.Child
+            enter="enter"
+            enterFrom="enter-from"
+            enterTo="enter-to"
+            leave="leave"
+            leaveFrom="leave-from"
+            leaveTo="leave-to"
+          >
+            {props.children}
+          </Transition.Child>
+        )
+      }
+
+      function Example() {
+        const [page, setPage] = React.useState('a')
+
+        return (
+          <>
+            <style>{`.enter { transition-duration: ${enterDuration}ms; } .leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            <Transition.Switch mode="in-out">
+              <Page key={page}>{page}</Page>
+            </Transition.Switch>
+
+            <button data-testid="next" onClick={() => setPage('b')}>
+              Next
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Swap the child
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('next'))
+          return executeTimeline.fullTransition(enterDuration)
+        },
+
+        // Wait for the second transition
+        () => [null, leaveDuration],
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            +     <div
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            +     >
+            +       b
+            +     </div>
+
+        Render 2:
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 3: Transition took at least 50ms (yes)
+            -     <div>
+            +     <div
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+            +     >
+            ---
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\"
+
+        Render 4:
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 5: Transition took at least 75ms (yes)
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            -     >
+            -       a
+            -     </div>
+            -     <div"
+      `)
+    })
+  )
+
+  it(
+    'should leave with the leave classes of the new child',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        const [page, setPage] = React.useState('a')
+
+        return (
+          <>
+            <style>{`.leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            <Transition.Switch mode="out-in">
+              <Transition.Child key={page} leave="leave" leaveTo={`leave-to-${page}`}>
+                {page}
+              </Transition.Child>
+            </Transition.Switch>
+
+            <button data-testid="next" onClick={() => setPage('b')}>
+              Next
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Swap the child
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('next'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            -     <div>
+            +     <div
+            +       class=\\"leave\\"
+            +       data-leave=\\"\\"
+            +     >
+
+        Render 2:
+            -       class=\\"leave\\"
+            +       class=\\"leave leave-to-b\\"
+
+        Render 3: Transition took at least 75ms (yes)
+            -       class=\\"leave leave-to-b\\"
+            -       data-leave=\\"\\"
+            +       data-enter=\\"\\"
+            ---
+            -       a
+            +       b"
+      `)
+    })
+  )
+
+  it(
+    'should transition the old and the new child at the same time',
+    suppressConsoleLogs(async () => {
+      const timeline = await executeTimeline(<Example mode="simultaneous" />, [
+        // Swap the child
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('next'))
+          return [
+            null, // Setup enter and leave classes
+            null, // Swap to the `to` classes
+            enterDuration, // Done with enter
+            leaveDuration - enterDuration, // Done with leave
+          ]
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            -     <div>
+            +     <div
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+            +     >
+            ---
+            +     </div>
+            +     <div
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            +     >
+            +       b
+
+        Render 2:
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+            ---
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 3: Transition took at least 50ms (yes)
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\"
+
+        Render 4: Transition took at least 25ms (yes)
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            -     >
+            -       a
+            -     </div>
+            -     <div"
+      `)
+    })
+  )
+})
+
+describe('useTransition', () => {
+  it(
+    'should yell at us when we forget the show option outside of a Transition',
+    suppressConsoleLogs(() => {
+      expect.assertions(1)
+
+      function Example() {
+        const container = React.useRef<HTMLDivElement>(null)
+        useTransition(container)
+        return <div ref={container} />
+      }
+
+      expect(() => render(<Example />)).toThrowErrorMatchingInlineSnapshot(
+        `"A \`useTransition\` hook is used without a \`show\` option, but it is missing a parent <Transition />."`
+      )
+    })
+  )
+
+  it(
+    'should transition an element that is rendered by ourselves',
+    suppressConsoleLogs(async () => {
+      const enterDuration = 50
+      const leaveDuration = 75
+
+      function Example() {
+        const container = React.useRef<HTMLDivElement>(null)
+        const [show, setShow] = React.useState(false)
+        const { mounted, state } = useTransition(container, {
+          show,
+          enter: 'enter',
+          enterFrom: 'from',
+          enterTo: 'to',
+          leave: 'leave',
+          leaveFrom: 'from',
+          leaveTo: 'to',
+        })
+
+        return (
+          <>
+            <style>{`.enter { transition-duration: ${enterDuration}ms; } .leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            {mounted && (
+              <div ref={container} data-state={state}>
+                Hello!
+              </div>
+            )}
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Toggle to show
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(enterDuration)
+        },
+
+        // Toggle to hide
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            +   <div
+            +     class=\\"enter from\\"
+            +     data-enter=\\"\\"
+            +     data-state=\\"entering\\"
+            +   >
+            +     Hello!
+            +   </div>
+
+        Render 2:
+            -     class=\\"enter from\\"
+            +     class=\\"enter to\\"
+
+        Render 3: Transition took at least 50ms (yes)
+            -     class=\\"enter to\\"
+            -     data-enter=\\"\\"
+            -     data-state=\\"entering\\"
+            +     class=\\"\\"
+            +     data-state=\\"entered\\"
+
+        Render 4:
+            -     class=\\"\\"
+            -     data-state=\\"entered\\"
+            +     class=\\"leave from\\"
+            +     data-leave=\\"\\"
+            +     data-state=\\"leaving\\"
+
+        Render 5:
+            -     class=\\"leave from\\"
+            +     class=\\"leave to\\"
+
+        Render 6: Transition took at least 75ms (yes)
+            -   <div
+            -     class=\\"leave to\\"
+            -     data-leave=\\"\\"
+            -     data-state=\\"leaving\\"
+            -   >
+            -     Hello!
+            -   </div>"
+      `)
+    })
+  )
+
+  it(
+    'should make the parent Transition wait for the element to leave',
+    suppressConsoleLogs(async () => {
+      const leaveDuration = 50
+
+      function Content() {
+        const container = React.useRef<HTMLSpanElement>(null)
+        const { mounted } = useTransition(container, { leave: 'leave' })
+
+        return mounted ? <span ref={container}>Hello!</span> : null
+      }
+
+      function Example() {
+        const [show, setShow] = React.useState(true)
+
+        return (
+          <>
+            <style>{`.leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            <Transition show={show}>
+              <Content />
+            </Transition>
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Toggle to hide
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            -   <div>
+            -     <span>
+            +   <div
+            +     data-leave=\\"\\"
+            +   >
+            +     <span
+            +       class=\\"leave\\"
+            +       data-leave=\\"\\"
+            +     >
+
+        Render 2:
+            -   <div
+            -     data-leave=\\"\\"
+            -   >
+            -     <span
+            -       class=\\"leave\\"
+            -       data-leave=\\"\\"
+            -     >
+            -       Hello!
+            -     </span>
+            -   </div>"
+      `)
+    })
+  )
+
+  it(
+    'should not make the parent Transition wait when we have our own show option',
+    suppressConsoleLogs(async () => {
+      const leaveDuration = 50
+
+      function Content() {
+        const container = React.useRef<HTMLSpanElement>(null)
+        const { mounted } = useTransition(container, { show: true })
+
+        return mounted ? <span ref={container}>I am my own root</span> : null
+      }
+
+      function Example() {
+        const [show, setShow] = React.useState(true)
+
+        return (
+          <>
+            <style>{`.leave { transition-duration: ${leaveDuration}ms; }`}</style>
+
+            <Transition show={show} leave="leave">
+              <Content />
+            </Transition>
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Toggle to hide
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(leaveDuration)
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            -   <div>
+            +   <div
+            +     class=\\"leave\\"
+            +     data-leave=\\"\\"
+            +   >
+
+        Render 2:
+            -   <div
+            -     class=\\"leave\\"
+            -     data-leave=\\"\\"
+            -   >
+            -     <span>
+            -       I am my own root
+            -     </span>
+            -   </div>"
+      `)
+    })
+  )
+})
+
+describe('Keyframes', () => {
+  type MockAnimation = {
+    keyframes: Keyframe[] | PropertyIndexedKeyframes | null
+    options?: number | KeyframeAnimationOptions
+    onfinish: (() => void) | null
+    oncancel: (() => void) | null
+    finish(): void
+    cancel(): void
+  }
+
+  let animations: MockAnimation[] = []
+
+  beforeEach(() => {
+    animations = []
+
+    // JSDOM doesn't implement the Web Animations API.
+    HTMLElement.prototype.animate = function animate(keyframes, options) {
+      const animation: MockAnimation = {
+        keyframes,
+        options,
+        onfinish: null,
+        oncancel: null,
+        finish: () => animation.onfinish?.(),
+        cancel: jest.fn(() => animation.oncancel?.()),
+      }
+      animations.push(animation)
+      return (animation as unknown) as Animation
+    }
+  })
+
+  afterEach(() => {
+    delete (HTMLElement.prototype as Partial<HTMLElement>).animate
+  })
+
+  function Example({ show }: { show: boolean }) {
+    return (
+      <Transition
+        show={show}
+        enter="enter"
+        leave="leave"
+        enterKeyframes={[{ opacity: 0 }, { opacity: 1 }]}
+        enterKeyframeOptions={{ duration: 150 }}
+        leaveKeyframes={[{ opacity: 1 }, { opacity: 0 }]}
+        leaveKeyframeOptions={{ duration: 75, fill: 'both' }}
+      >
+        Hello!
+      </Transition>
+    )
+  }
+
+  it('should animate the keyframes instead of applying the classes', () => {
+    const { container, rerender } = render(<Example show={false} />)
+
+    rerender(<Example show={true} />)
+
+    expect(animations.map(animation => [animation.keyframes, animation.options])).toEqual([
+      [[{ opacity: 0 }, { opacity: 1 }], { duration: 150, fill: 'backwards' }],
+    ])
+    expect(container.firstChild).toMatchInlineSnapshot(`
+      <div
+        data-enter=""
+      >
+        Hello!
+      </div>
+    `)
+
+    act(() => animations[0].finish())
+    rerender(<Example show={false} />)
+
+    expect(animations.map(animation => animation.options)).toEqual([
+      { duration: 150, fill: 'backwards' },
+      { duration: 75, fill: 'both' },
+    ])
+
+    act(() => animations[1].finish())
+
+    expect(container.firstChild).toBeNull()
+  })
+
+  it('should cancel the running animation when show changes mid-flight', () => {
+    const calls: string[] = []
+
+    function Example({ show }: { show: boolean }) {
+      return (
+        <Transition
+          show={show}
+          enterKeyframes={[{ opacity: 0 }, { opacity: 1 }]}
+          leaveKeyframes={[{ opacity: 1 }, { opacity: 0 }]}
+          onCancel={() => calls.push('onCancel')}
+        >
+          Hello!
+        </Transition>
+      )
+    }
+
+    const { rerender } = render(<Example show={false} />)
+
+    rerender(<Example show={true} />)
+    rerender(<Example show={false} />)
+
+    expect(animations).toHaveLength(2)
+    expect(animations[0].cancel).toHaveBeenCalledTimes(1)
+    expect(animations[1].cancel).not.toHaveBeenCalled()
+    expect(calls).toEqual(['onCancel'])
+  })
+
+  it('should fallback to the classes when the Web Animations API is not available', () => {
+    delete (HTMLElement.prototype as Partial<HTMLElement>).animate
+
+    const { container, rerender } = render(<Example show={false} />)
+
+    rerender(<Example show={true} />)
+
+    expect(container.firstChild).toMatchInlineSnapshot(`
+      <div
+        class="enter"
+        data-enter=""
+      >
+        Hello!
+      </div>
+    `)
+  })
+})
+
+describe('TransitionConfig', () => {
+  it('should use the default classes unless they are overridden', () => {
+    function Example({ show }: { show: boolean }) {
+      return (
+        <TransitionConfig defaults={{ enter: 'enter', enterFrom: 'from', enterTo: 'to' }}>
+          <Transition show={show}>Hello!</Transition>
+          <Transition show={show} enterFrom="custom-from">
+            Hello!
+          </Transition>
+        </TransitionConfig>
+      )
+    }
+
+    const { container, rerender } = render(<Example show={false} />)
+
+    rerender(<Example show={true} />)
+
+    expect(container).toMatchInlineSnapshot(`
+      <div>
+        <div
+          class="enter from"
+          data-enter=""
+        >
+          Hello!
+        </div>
+        <div
+          class="enter custom-from"
+          data-enter=""
+        >
+          Hello!
+        </div>
+      </div>
+    `)
+  })
+
+  it('should jump straight to the final state when transitions are disabled', () => {
+    const calls: string[] = []
+
+    function Example({ show }: { show: boolean }) {
+      return (
+        <TransitionConfig disabled>
+          <Transition
+            show={show}
+            enter="enter"
+            enterFrom="from"
+            enterTo="to"
+            leave="leave"
+            afterEnter={() => calls.push('afterEnter')}
+            afterLeave={() => calls.push('afterLeave')}
+          >
+            Hello!
+          </Transition>
+        </TransitionConfig>
+      )
+    }
+
+    const { container, rerender } = render(<Example show={false} />)
+
+    rerender(<Example show={true} />)
+    expect(container.firstChild).toMatchInlineSnapshot(`
+      <div>
+        Hello!
+      </div>
+    `)
+
+    rerender(<Example show={false} />)
+    expect(container.firstChild).toBeNull()
+
+    expect(calls).toEqual(['afterEnter', 'afterLeave'])
+  })
+
+  it(
+    'should scale the durations using the duration multiplier',
+    suppressConsoleLogs(async () => {
+      const enterDuration = 50
+      const durationMultiplier = 2
+
+      function Example() {
+        const [show, setShow] = React.useState(false)
+
+        return (
+          <TransitionConfig durationMultiplier={durationMultiplier}>
+            <style>{`.enter { transition-duration: ${enterDuration}ms; }`}</style>
+
+            <Transition show={show} enter="enter" enterFrom="from" enterTo="to">
+              <span>Hello!</span>
+            </Transition>
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </TransitionConfig>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Toggle to show
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return executeTimeline.fullTransition(enterDuration * durationMultiplier)
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            +   <div
+            +     class=\\"enter from\\"
+            +     data-enter=\\"\\"
+            +     style=\\"transition-duration: 100ms;\\"
+            +   >
+            +     <span>
+            +       Hello!
+            +     </span>
+            +   </div>
+
+        Render 2:
+            -     class=\\"enter from\\"
+            +     class=\\"enter to\\"
+
+        Render 3: Transition took at least 100ms (yes)
+            -     class=\\"enter to\\"
+            -     data-enter=\\"\\"
+            -     style=\\"transition-duration: 100ms;\\"
+            +     class=\\"\\"
+            +     style=\\"\\""
+      `)
+    })
+  )
+
+  describe('debug', () => {
+    // The IDs depend on the order in which the components are rendered, so we use the IDs of their
+    // DOM nodes instead.
+    function describeEvents(events: TransitionDebugEvent[]) {
+      const names = new Map<number | null, string>([[null, 'none']])
+      for (let event of events) {
+        if (event.type === 'phase') names.set(event.id, event.node?.id || 'root')
+      }
+
+      return events.map(event => {
+        const [id, parent] = [names.get(event.id), names.get(event.parent)]
+
+        if (event.type === 'phase') return `${id} is ${event.state}`
+        if (event.type === 'cancel') {
+          return `${id} got cancelled while ${event.show ? 'entering' : 'leaving'}`
+        }
+
+        const relation = event.type === 'register' ? 'registered with' : 'unregistered from'
+        return `${id} ${relation} ${parent}, which waits for [${event.children
+          .map(child => names.get(child))
+          .join(', ')}]`
+      })
+    }
+
+    it('should report the registrations and phase changes in the tree', () => {
+      const events: TransitionDebugEvent[] = []
+
+      function Example({ show }: { show: boolean }) {
+        return (
+          <TransitionConfig disabled debug={event => events.push(event)}>
+            <Transition show={show}>
+              <Transition.Child id="backdrop" />
+              <Transition.Child id="panel" />
+            </Transition>
+          </TransitionConfig>
+        )
+      }
+
+      const { rerender } = render(<Example show={false} />)
+
+      rerender(<Example show={true} />)
+      rerender(<Example show={false} />)
+
+      expect(describeEvents(events)).toMatchInlineSnapshot(`
+        Array [
+          "backdrop registered with root, which waits for [backdrop]",
+          "backdrop is entering",
+          "backdrop is entered",
+          "panel registered with root, which waits for [backdrop, panel]",
+          "panel is entering",
+          "panel is entered",
+          "root registered with none, which waits for [root]",
+          "root is entering",
+          "root is entered",
+          "backdrop is leaving",
+          "backdrop unregistered from root, which waits for [panel]",
+          "panel is leaving",
+          "panel unregistered from root, which waits for []",
+          "root is leaving",
+          "root unregistered from none, which waits for []",
+        ]
+      `)
+    })
+
+    it('should report cancelled transitions', () => {
+      const events: TransitionDebugEvent[] = []
+
+      function Example({ show }: { show: boolean }) {
+        return (
+          <TransitionConfig debug={event => events.push(event)}>
+            <Transition show={show} leave="leave" leaveFrom="from" leaveTo="to" />
+          </TransitionConfig>
+        )
+      }
+
+      const { rerender } = render(<Example show={true} />)
+
+      rerender(<Example show={false} />)
+      rerender(<Example show={true} />)
+
+      expect(describeEvents(events).filter(event => event.includes('cancelled'))).toEqual([
+        'root got cancelled while leaving',
+      ])
+    })
+  })
+})
+
+describe('Presets', () => {
+  it('should expand the preset to its classes', () => {
+    const { container, rerender } = render(<Transition show={false} preset="fade" />)
+
+    rerender(<Transition show={true} preset="fade" />)
+
+    expect(container.firstChild).toMatchInlineSnapshot(`
+      <div
+        class="transition-opacity ease-linear duration-300 opacity-0"
+        data-enter=""
+      />
+    `)
+  })
+
+  it('should be possible to override the classes of a preset', () => {
+    const { container, rerender } = render(
+      <Transition show={false} preset="fade" enterFrom="opacity-50" />
+    )
+
+    rerender(<Transition show={true} preset="fade" enterFrom="opacity-50" />)
+
+    expect(container.firstChild).toMatchInlineSnapshot(`
+      <div
+        class="transition-opacity ease-linear duration-300 opacity-50"
+        data-enter=""
+      />
+    `)
+  })
+
+  it('should be possible to register our own presets', () => {
+    function Example({ show }: { show: boolean }) {
+      return (
+        <TransitionConfig presets={{ pop: { enter: 'pop', enterFrom: 'pop-from' } }}>
+          <Transition show={show} preset="pop" />
+        </TransitionConfig>
+      )
+    }
+
+    const { container, rerender } = render(<Example show={false} />)
+
+    rerender(<Example show={true} />)
+
+    expect(container.firstChild).toMatchInlineSnapshot(`
+      <div
+        class="pop pop-from"
+        data-enter=""
+      />
+    `)
+  })
+
+  it(
+    'should yell at us when we use a preset that does not exist',
+    suppressConsoleLogs(() => {
+      expect.assertions(1)
+
+      expect(() =>
+        render(<Transition show={true} preset="unknown" />)
+      ).toThrowErrorMatchingInlineSnapshot(
+        `"A transition preset named \\"unknown\\" is used, but it is not registered."`
+      )
+    })
+  )
+})
+
+describe('Stagger', () => {
+  it(
+    'should start the children one after another, and leave in reverse order',
+    suppressConsoleLogs(async () => {
+      const duration = 200
+      const stagger = 100
+
+      function Example() {
+        const [show, setShow] = React.useState(false)
+
+        return (
+          <>
+            <style>{`.enter, .leave { transition-duration: ${duration}ms; }`}</style>
+
+            <Transition show={show} stagger={{ delay: stagger, reverse: true }}>
+              {['a', 'b'].map(item => (
+                <Transition.Child
+                  key={item}
+                  id={item}
+                  enter="enter"
+                  enterFrom="enter-from"
+                  enterTo="enter-to"
+                  leave="leave"
+                  leaveFrom="leave-from"
+                  leaveTo="leave-to"
+                />
+              ))}
+            </Transition>
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Toggle to show
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return [null, null, stagger, duration - stagger, stagger]
+        },
+
+        // Toggle to hide
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return [null, null, stagger, duration - stagger, stagger]
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            +   <div
+            +     data-enter=\\"\\"
+            +   >
+            +     <div
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            +       id=\\"a\\"
+            +     />
+            +     <div
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            +       id=\\"b\\"
+            +     />
+            +   </div>
+
+        Render 2:
+            +   <div>
+            ---
+            -     data-enter=\\"\\"
+            -   >
+            -     <div
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 3: Transition took at least 100ms (yes)
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 4: Transition took at least 100ms (yes)
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\"
+
+        Render 5: Transition took at least 100ms (yes)
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\"
+
+        Render 6:
+            -   <div>
+            +   <div
+            +     data-leave=\\"\\"
+            +   >
+            ---
+            -       class=\\"\\"
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+            ---
+            -       class=\\"\\"
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+
+        Render 7:
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 8: Transition took at least 100ms (yes)
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 9: Transition took at least 100ms (yes)
+            -     <div
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            -       id=\\"b\\"
+            -     />
+
+        Render 10: Transition took at least 100ms (yes)
+            -   <div
+            -     data-leave=\\"\\"
+            -   >
+            -     <div
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            -       id=\\"a\\"
+            -     />
+            -   </div>"
+      `)
+    })
+  )
+})
+
+describe('Order', () => {
+  it(
+    'should transition the children one after another, and leave in reverse order',
+    suppressConsoleLogs(async () => {
+      const duration = 100
+
+      function Example() {
+        const [show, setShow] = React.useState(false)
+
+        return (
+          <>
+            <style>{`.enter, .leave { transition-duration: ${duration}ms; }`}</style>
+
+            <Transition show={show} order="sequential">
+              <Transition.Child
+                id="backdrop"
+                enter="enter"
+                enterFrom="enter-from"
+                enterTo="enter-to"
+                leave="leave"
+                leaveFrom="leave-from"
+                leaveTo="leave-to"
+              />
+              <Transition.Child
+                id="panel"
+                enter="enter"
+                enterFrom="enter-from"
+                enterTo="enter-to"
+                leave="leave"
+                leaveFrom="leave-from"
+                leaveTo="leave-to"
+              />
+            </Transition>
+
+            <button data-testid="toggle" onClick={() => setShow(v => !v)}>
+              Toggle
+            </button>
+          </>
+        )
+      }
+
+      const timeline = await executeTimeline(<Example />, [
+        // Toggle to show
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return [null, null, duration, duration]
+        },
+
+        // Toggle to hide
+        ({ getByTestId }) => {
+          fireEvent.click(getByTestId('toggle'))
+          return [null, null, duration, duration]
+        },
+      ])
+
+      expect(timeline).toMatchInlineSnapshot(`
+        "Render 1:
+            +   <div
+            +     data-enter=\\"\\"
+            +   >
+            +     <div
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            +       id=\\"backdrop\\"
+            +     />
+            +     <div
+            +       class=\\"enter enter-from\\"
+            +       data-enter=\\"\\"
+            +       id=\\"panel\\"
+            +     />
+            +   </div>
+
+        Render 2:
+            +   <div>
+            ---
+            -     data-enter=\\"\\"
+            -   >
+            -     <div
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 3: Transition took at least 100ms (yes)
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\"
+            ---
+            -       class=\\"enter enter-from\\"
+            +       class=\\"enter enter-to\\"
+
+        Render 4: Transition took at least 100ms (yes)
+            -       class=\\"enter enter-to\\"
+            -       data-enter=\\"\\"
+            +       class=\\"\\"
+
+        Render 5:
+            -   <div>
+            +   <div
+            +     data-leave=\\"\\"
+            +   >
+            ---
+            -       class=\\"\\"
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+            ---
+            -       class=\\"\\"
+            +       class=\\"leave leave-from\\"
+            +       data-leave=\\"\\"
+
+        Render 6:
+            -       class=\\"leave leave-from\\"
+            +       class=\\"leave leave-to\\"
+
+        Render 7: Transition took at least 100ms (yes)
+            -       class=\\"leave leave-from\\"
+            -       data-leave=\\"\\"
+            -       id=\\"backdrop\\"
+            -     />
+            -     <div
+            ---
+            -       id=\\"panel\\"
+            +       id=\\"backdrop\\"
+
+        Render 8: Transition took at least 100ms (yes)
+            -   <div
+            -     data-leave=\\"\\"
+            -   >
+            -     <div
+            -       class=\\"leave leave-to\\"
+            -       data-leave=\\"\\"
+            -       id=\\"backdrop\\"
+            -     />
+            -   </div>"
+      `)
+    })
+  )
+})
+
+describe('Development warnings', () => {
+  it('should point to the element in the warning', async () => {
+    const spy = jest.spyOn(console, 'warn').mockImplementation(jest.fn())
+
+    const { getByText } = render(
+      <>
+        <style>{`.enter { transition-duration: 0s; }`}</style>
+
+        <Transition
+          show={true}
+          appear
+          className="panel"
+          enter="enter"
+          enterFrom="from"
+          enterTo="to"
+        >
+          Hello!
+        </Transition>
+      </>
+    )
+
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(spy.mock.calls[0][0]).toContain('of <div class="panel"> resolve to a duration of 0ms')
+    expect(spy.mock.calls[0][1]).toBe(getByText('Hello!'))
+
+    spy.mockRestore()
+  })
+
+  it('should not warn about a duration of 0ms when the durations are scaled down to 0ms', async () => {
+    const spy = jest.spyOn(console, 'warn').mockImplementation(jest.fn())
+
+    render(
+      <TransitionConfig durationMultiplier={0}>
+        <style>{`.enter { transition-duration: 50ms; }`}</style>
+
+        <Transition show={true} appear enter="enter" enterFrom="from" enterTo="to">
+          Hello!
+        </Transition>
+      </TransitionConfig>
+    )
+
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    expect(spy).not.toHaveBeenCalled()
+
+    spy.mockRestore()
   })
 })
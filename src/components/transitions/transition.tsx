@@ -1,19 +1,37 @@
 import * as React from 'react'
 
-import { useId } from '../../hooks/use-id'
 import { useIsInitialRender } from '../../hooks/use-is-initial-render'
 import { useIsMounted } from '../../hooks/use-is-mounted'
+import { useLatestValue } from '../../hooks/use-latest-value'
+import { useSyncRefs } from '../../hooks/use-sync-refs'
 import { useIsoMorphicEffect } from '../../hooks/use-iso-morphic-effect'
+import { usePrefersReducedMotion } from '../../hooks/use-prefers-reduced-motion'
 
+import { ClassValue, classNames } from '../../utils/class-names'
 import { match } from '../../utils/match'
-import { Reason, transition } from './utils/transition'
+import { presets as builtInPresets } from './presets'
+import {
+  Reason,
+  animate,
+  move as moveTransition,
+  splitClasses,
+  transition,
+} from './utils/transition'
 
 type ID = number
 
-function useSplitClasses(classes: string = '') {
-  return React.useMemo(() => classes.split(' ').filter(className => className.trim().length > 1), [
-    classes,
-  ])
+// Transitions only use their ID to keep track of each other, it never ends up in the DOM. Unlike
+// `useId`, it doesn't have to match the server and is available in the first render.
+let transitionId = 0
+function generateTransitionId(): ID {
+  return ++transitionId
+}
+
+function useSplitClasses(classes?: ClassValue) {
+  // Arrays and objects are typically created inline, by memoizing on the resulting string we don't
+  // restart the transitions on every render.
+  const normalized = classNames(classes)
+  return React.useMemo(() => splitClasses(normalized), [normalized])
 }
 
 type TransitionContextValues = {
@@ -22,37 +40,121 @@ type TransitionContextValues = {
 } | null
 const TransitionContext = React.createContext<TransitionContextValues>(null)
 
+type ReducedMotion = 'user' | 'always' | 'never'
+
+type TransitionPreset = keyof typeof builtInPresets | (string & {})
+
+type TransitionConfigValues = {
+  reducedMotion: ReducedMotion
+  defaults: TransitionClasses
+  presets: Record<string, TransitionClasses>
+  durationMultiplier: number
+  disabled: boolean
+  debug?: (event: TransitionDebugEvent) => void
+}
+const TransitionConfigContext = React.createContext<TransitionConfigValues>({
+  reducedMotion: 'user',
+  defaults: {},
+  presets: builtInPresets,
+  durationMultiplier: 1,
+  disabled: false,
+})
+
 enum TreeStates {
   Visible = 'visible',
   Hidden = 'hidden',
 }
 
+export type TransitionState = 'entering' | 'entered' | 'leaving' | 'closed'
+
+// What is going on in a tree of transitions, `parent` is the ID of the `Transition` (or
+// `Transition.Child`) that the transition with the given `id` is nested in.
+export type TransitionDebugEvent = { id: ID; parent: ID | null } & (
+  | { type: 'register' | 'unregister'; children: ID[] }
+  | { type: 'phase'; state: TransitionState; node: HTMLElement | null }
+  | { type: 'cancel'; show: boolean }
+)
+
 type TransitionClasses = Partial<{
-  enter: string
-  enterFrom: string
-  enterTo: string
-  leave: string
-  leaveFrom: string
-  leaveTo: string
+  enter: ClassValue
+  enterFrom: ClassValue
+  enterTo: ClassValue
+  leave: ClassValue
+  leaveFrom: ClassValue
+  leaveTo: ClassValue
+  enterReduced: ClassValue
+  leaveReduced: ClassValue
+  move: ClassValue
 }>
 
-type HTMlTags = keyof JSX.IntrinsicElements
-type HTMLTagProps<TTag extends HTMlTags> = JSX.IntrinsicElements[TTag]
+type TransitionKeyframes = Partial<{
+  enterKeyframes: Keyframe[] | PropertyIndexedKeyframes
+  enterKeyframeOptions: KeyframeAnimationOptions
+  leaveKeyframes: Keyframe[] | PropertyIndexedKeyframes
+  leaveKeyframeOptions: KeyframeAnimationOptions
+}>
+
+// Inline styles for values that can't be expressed as classes (e.g. a measured height). They are
+// applied and removed at the same points as the corresponding `from` and `to` classes.
+type TransitionStyles = Partial<{
+  enterFromStyle: React.CSSProperties
+  enterToStyle: React.CSSProperties
+  leaveFromStyle: React.CSSProperties
+  leaveToStyle: React.CSSProperties
+}>
+
+type TransitionEvents = Partial<{
+  beforeEnter(): void
+  afterEnter(): void
+  beforeLeave(): void
+  afterLeave(): void
+  onCancel(): void
+}>
 
-type AsShortcut<TTag extends HTMlTags> = {
+// A Fragment doesn't render anything itself, so its props are passed through to its child element.
+type PassthroughProps<TTag extends React.ElementType> = TTag extends typeof React.Fragment
+  ? Omit<React.HTMLAttributes<HTMLElement>, 'children' | 'className'>
+  : Omit<React.ComponentPropsWithoutRef<TTag>, 'as' | 'children' | 'className'>
+
+type AsShortcut<TTag extends React.ElementType> = {
   children?: React.ReactNode
   as?: TTag
-} & Omit<HTMLTagProps<TTag>, 'ref'>
+  className?: ClassValue
+} & PassthroughProps<TTag>
 
 type AsRenderPropFunction = {
-  children: (ref: React.MutableRefObject<any>) => JSX.Element
+  children: (bag: { ref: React.Ref<any>; state: TransitionState }) => JSX.Element
+}
+
+// The `ref` that can be forwarded to the element (or component) that is rendered. When using a render
+// prop we don't know which element is rendered, but it will always be an `HTMLElement`.
+type ForwardedRef<TTag extends React.ElementType> = {
+  ref?: React.ComponentPropsWithRef<TTag>['ref'] | React.Ref<HTMLElement>
 }
 
-type BaseConfig = Partial<{ appear: boolean }>
+// The delay (in milliseconds) between the start of each nested child, in the order they are mounted.
+// When reversed, the last child starts leaving first.
+type Stagger = number | { delay: number; reverse?: boolean }
+
+// Whether nested children transition at the same time, or one after another (in the order they are
+// mounted when entering, and in reverse order when leaving).
+type Order = 'parallel' | 'sequential'
 
-type TransitionChildProps<TTag extends HTMlTags> = BaseConfig &
+type BaseConfig = Partial<{
+  appear: boolean
+  unmount: boolean
+  reducedMotion: ReducedMotion
+  preset: TransitionPreset
+  stagger: Stagger
+  order: Order
+}>
+
+type TransitionChildProps<TTag extends React.ElementType> = BaseConfig &
   (AsShortcut<TTag> | AsRenderPropFunction) &
-  TransitionClasses
+  TransitionClasses &
+  TransitionStyles &
+  TransitionKeyframes &
+  TransitionEvents
 
 function useTransitionContext() {
   const context = React.useContext(TransitionContext)
@@ -64,27 +166,102 @@ function useTransitionContext() {
   return context
 }
 
-function useParentNesting() {
-  const context = React.useContext(NestingContext)
+function useReducedMotion(reducedMotion?: ReducedMotion) {
+  const config = React.useContext(TransitionConfigContext)
+  const prefersReducedMotion = usePrefersReducedMotion()
 
-  if (context === null) {
-    throw new Error('A <Transition.Child /> is used but it is missing a parent <Transition />.')
-  }
-
-  return context
+  return match<ReducedMotion, boolean>(reducedMotion ?? config.reducedMotion, {
+    user: prefersReducedMotion,
+    always: true,
+    never: false,
+  })
 }
 
 type NestingContextValues = {
   children: React.MutableRefObject<ID[]>
   register: (id: ID) => () => void
   unregister: (id: ID) => void
+  owner: ID | null
+  delay: (id: ID, show: boolean) => number
+  settle: (id: ID, show: boolean | null) => void
+  sequence: (id: ID, show: boolean, start: () => void) => () => void
 }
 
 const NestingContext = React.createContext<NestingContextValues | null>(null)
 
-function useNesting(done?: () => void) {
+type MoveContextValues = {
+  register: (
+    id: ID,
+    container: React.MutableRefObject<HTMLElement | null>,
+    classes: string[]
+  ) => () => void
+}
+
+const MoveContext = React.createContext<MoveContextValues | null>(null)
+
+function setDataAttribute(node: HTMLElement, attribute: string, enabled: boolean) {
+  if (enabled) node.setAttribute(attribute, '')
+  else node.removeAttribute(attribute)
+}
+
+function noop() {}
+function noopRegister() {
+  return noop
+}
+function noopSequence(_id: ID, _show: boolean, start: () => void) {
+  start()
+  return noop
+}
+
+function useNesting(
+  done?: () => void,
+  {
+    stagger,
+    order = 'parallel',
+    owner = null,
+    entered,
+  }: { stagger?: Stagger; order?: Order; owner?: ID | null; entered?: () => void } = {}
+) {
   const transitionableChildren = React.useRef<ID[]>([])
   const mounted = useIsMounted()
+  const latestDebug = useLatestValue(React.useContext(TransitionConfigContext).debug)
+  // Stagger options are typically passed in as inline objects, changing them shouldn't restart the
+  // transitions of our children.
+  const latestStagger = useLatestValue(stagger)
+  const latestOrder = useLatestValue(order)
+  const latestEntered = useLatestValue(entered)
+
+  // The `show` value each child has transitioned to, `null` while it is still transitioning.
+  const settled = React.useRef(new Map<ID, boolean | null>())
+  // The children that are waiting for their turn to start transitioning.
+  const waiting = React.useRef<{ id: ID; show: boolean; start: () => void }[]>([])
+
+  const isTurn = React.useCallback(
+    (childId: ID, show: boolean) => {
+      const idx = transitionableChildren.current.indexOf(childId)
+
+      if (idx === -1) return true
+
+      const before = show
+        ? transitionableChildren.current.slice(0, idx)
+        : transitionableChildren.current.slice(idx + 1)
+
+      return before.every(id => settled.current.get(id) === show)
+    },
+    [transitionableChildren, settled]
+  )
+
+  const startWaiting = React.useCallback(() => {
+    for (let child of waiting.current.slice()) {
+      const idx = waiting.current.indexOf(child)
+
+      // The child could have been started (or cancelled) by one of the children we started already.
+      if (idx === -1 || !isTurn(child.id, child.show)) continue
+
+      waiting.current.splice(idx, 1)
+      child.start()
+    }
+  }, [waiting, isTurn])
 
   const unregister = React.useCallback(
     (childId: ID) => {
@@ -93,20 +270,86 @@ function useNesting(done?: () => void) {
       if (idx === -1) return
 
       transitionableChildren.current.splice(idx, 1)
+      settled.current.delete(childId)
+      latestDebug.current?.({
+        type: 'unregister',
+        id: childId,
+        parent: owner,
+        children: transitionableChildren.current.slice(),
+      })
+      startWaiting()
 
       if (transitionableChildren.current.length <= 0 && mounted.current) {
         done?.()
       }
     },
-    [done, mounted, transitionableChildren]
+    [done, mounted, transitionableChildren, settled, latestDebug, owner, startWaiting]
   )
 
   const register = React.useCallback(
     (childId: ID) => {
-      transitionableChildren.current.push(childId)
+      // Registering is idempotent, a child could register itself again without unregistering first
+      // when its effects are re-run.
+      if (!transitionableChildren.current.includes(childId)) {
+        transitionableChildren.current.push(childId)
+        latestDebug.current?.({
+          type: 'register',
+          id: childId,
+          parent: owner,
+          children: transitionableChildren.current.slice(),
+        })
+      }
       return () => unregister(childId)
     },
-    [transitionableChildren, unregister]
+    [transitionableChildren, latestDebug, owner, unregister]
+  )
+
+  const delay = React.useCallback(
+    (childId: ID, show: boolean) => {
+      const { delay: ms = 0, reverse = false } =
+        typeof latestStagger.current === 'number'
+          ? { delay: latestStagger.current }
+          : latestStagger.current ?? {}
+      const idx = transitionableChildren.current.indexOf(childId)
+
+      if (idx === -1) return 0
+
+      return (reverse && !show ? transitionableChildren.current.length - 1 - idx : idx) * ms
+    },
+    [latestStagger, transitionableChildren]
+  )
+
+  const settle = React.useCallback(
+    (childId: ID, show: boolean | null) => {
+      settled.current.set(childId, show)
+      startWaiting()
+
+      if (
+        show === true &&
+        transitionableChildren.current.every(id => settled.current.get(id) === true)
+      ) {
+        latestEntered.current?.()
+      }
+    },
+    [settled, startWaiting, transitionableChildren, latestEntered]
+  )
+
+  const sequence = React.useCallback(
+    (childId: ID, show: boolean, start: () => void) => {
+      if (latestOrder.current !== 'sequential' || isTurn(childId, show)) {
+        start()
+        return noop
+      }
+
+      const child = { id: childId, show, start }
+      waiting.current.push(child)
+
+      return () => {
+        const idx = waiting.current.indexOf(child)
+        if (idx !== -1) waiting.current.splice(idx, 1)
+      }
+    },
+    [latestOrder, isTurn, waiting]
   )
 
   return React.useMemo(
@@ -114,36 +357,193 @@ function useNesting(done?: () => void) {
       children: transitionableChildren,
       register,
       unregister,
+      owner,
+      delay,
+      settle,
+      sequence,
     }),
-    [register, unregister, transitionableChildren]
+    [register, unregister, owner, delay, settle, sequence, transitionableChildren]
   )
 }
 
-function TransitionChild<TTag extends HTMlTags = 'div'>(props: TransitionChildProps<TTag>) {
-  const { children, enter, enterFrom, enterTo, leave, leaveFrom, leaveTo, ...rest } = props
-  const container = React.useRef<HTMLElement | null>(null)
-  const [state, setState] = React.useState(TreeStates.Visible)
+type TransitionOptions = BaseConfig &
+  TransitionClasses &
+  TransitionStyles &
+  TransitionKeyframes &
+  TransitionEvents & {
+    show?: boolean
+  }
 
-  const { show, appear } = useTransitionContext()
-  const { register, unregister } = useParentNesting()
+function useTransitionState(
+  container: React.MutableRefObject<HTMLElement | null>,
+  options: TransitionOptions,
+  exposeState = true
+) {
+  const { defaults, presets, durationMultiplier, disabled, debug } = React.useContext(
+    TransitionConfigContext
+  )
 
-  const initial = useIsInitialRender()
-  const id = useId()
+  if (options.preset !== undefined && !presets.hasOwnProperty(options.preset)) {
+    throw new Error(
+      `A transition preset named "${options.preset}" is used, but it is not registered.`
+    )
+  }
+
+  // The classes that are passed in explicitly win over the ones of the preset, which in turn win
+  // over the defaults of the `TransitionConfig`.
+  const preset: TransitionClasses = options.preset === undefined ? {} : presets[options.preset]
+  const {
+    enter = preset.enter ?? defaults.enter,
+    enterFrom = preset.enterFrom ?? defaults.enterFrom,
+    enterTo = preset.enterTo ?? defaults.enterTo,
+    leave = preset.leave ?? defaults.leave,
+    leaveFrom = preset.leaveFrom ?? defaults.leaveFrom,
+    leaveTo = preset.leaveTo ?? defaults.leaveTo,
+    enterReduced = preset.enterReduced ?? defaults.enterReduced,
+    leaveReduced = preset.leaveReduced ?? defaults.leaveReduced,
+    move = preset.move ?? defaults.move,
+    enterFromStyle,
+    enterToStyle,
+    leaveFromStyle,
+    leaveToStyle,
+    enterKeyframes,
+    enterKeyframeOptions,
+    leaveKeyframes,
+    leaveKeyframeOptions,
+    beforeEnter,
+    afterEnter,
+    beforeLeave,
+    afterLeave,
+    onCancel,
+    unmount = true,
+    reducedMotion,
+    stagger,
+    order,
+  } = options
+
+  // Without an explicit `show` option we follow the parent `Transition`, just like a
+  // `Transition.Child` would.
+  const transitionContext = React.useContext(TransitionContext)
+  const nestingContext = React.useContext(NestingContext)
+
+  if (options.show === undefined && transitionContext === null) {
+    throw new Error(
+      'A `useTransition` hook is used without a `show` option, but it is missing a parent <Transition />.'
+    )
+  }
+
+  const show = options.show ?? transitionContext!.show
+  const appear = options.appear ?? transitionContext?.appear ?? false
+
+  // We are allowed to be used outside of a `Transition` tree, in that case there is no parent that
+  // has to wait for us. With our own `show` option we are a root ourselves, just like a nested
+  // `Transition`, so the parent shouldn't wait for us either.
+  const parentNesting = options.show === undefined ? nestingContext : null
+  const register = parentNesting?.register ?? noopRegister
+  const unregister = parentNesting?.unregister ?? noop
+  const settle = parentNesting?.settle ?? noop
+  const sequence = parentNesting?.sequence ?? noopSequence
+  const parent = parentNesting?.owner ?? null
+
+  const [state, setState] = React.useState(show ? TreeStates.Visible : TreeStates.Hidden)
+  // Whether the enter transition has finished, this is the case right away when we don't have to
+  // transition initially. Unlike the other phases, finishing the enter transition doesn't render
+  // anything different by itself, so we only re-render when the `state` is exposed (to a render prop
+  // or the `useTransition` hook). The DOM node and the `debug` callback are updated directly.
+  const entered = React.useRef(show && !appear)
+  const [, forceRender] = React.useReducer((count: number) => count + 1, 0)
+
+  // When we are hidden but not unmounted (or unmounted while our parent is kept around) we have to
+  // become visible again in the same render. Otherwise there is no DOM node to transition yet.
+  if (show && state === TreeStates.Hidden) {
+    setState(TreeStates.Visible)
+  }
+
+  // The `show` value we already transitioned to (or started out with), `null` while a transition is
+  // running. Effects can run more than once for the same values (e.g. in `React.StrictMode`, or
+  // when the classes change), this ensures that we only transition when there is something to do.
+  const settledShow = React.useRef<boolean | null>(show && appear ? null : show)
+  const [id] = React.useState(generateTransitionId)
 
   const isTransitioning = React.useRef(false)
+  // A cancelled transition that we didn't report yet, see below.
+  const pendingCancel = React.useRef<{ show: boolean; report: () => void } | null>(null)
+
+  // Keep track of the latest callbacks without re-running (and therefore restarting) transitions
+  // every time an inline function is passed in.
+  const events = useLatestValue<TransitionEvents>({
+    beforeEnter,
+    afterEnter,
+    beforeLeave,
+    afterLeave,
+    onCancel,
+  })
+  // Styles and keyframes are typically passed in as inline objects and arrays as well.
+  const styles = useLatestValue<TransitionStyles>({
+    enterFromStyle,
+    enterToStyle,
+    leaveFromStyle,
+    leaveToStyle,
+  })
+  const keyframes = useLatestValue<TransitionKeyframes>({
+    enterKeyframes,
+    enterKeyframeOptions,
+    leaveKeyframes,
+    leaveKeyframeOptions,
+  })
+  // Changing the config should only affect upcoming transitions, instead of restarting them.
+  const config = useLatestValue({ durationMultiplier, disabled })
+  const latestDebug = useLatestValue(debug)
+  const latestShow = useLatestValue(show)
+  const mounted = useIsMounted()
+
+  // Expose the current phase on the DOM node, so that it can be used for styling. And let the
+  // `debug` callback of the `TransitionConfig` know about every phase we move to.
+  const reportedState = React.useRef<TransitionState | null>(null)
+  const reportState = React.useCallback(
+    (state: TransitionState) => {
+      if (reportedState.current === state) return
+      reportedState.current = state
+
+      const node = container.current
+
+      if (node) {
+        setDataAttribute(node, 'data-enter', state === 'entering')
+        setDataAttribute(node, 'data-leave', state === 'leaving')
+        setDataAttribute(node, 'data-closed', state === 'closed')
+      }
+
+      latestDebug.current?.({ type: 'phase', id, parent, state, node })
+    },
+    [container, latestDebug, id, parent]
+  )
+
+  const hide = React.useCallback(() => {
+    // Let the parent know first, in case of a `Transition.Group` the positions of our siblings
+    // should be measured while we are still around. The parent could unmount us as a result.
+    unregister(id)
+    if (mounted.current) setState(TreeStates.Hidden)
+  }, [id, unregister, mounted])
 
   const nesting = useNesting(
     React.useCallback(() => {
       // When all children have been unmounted we can only hide ourselves if and only if we are not
       // transitioning ourserlves. Otherwise we would unmount before the transitions are finished.
-      if (!isTransitioning.current) {
-        setState(TreeStates.Hidden)
-        unregister(id)
-      }
-    }, [id, unregister, isTransitioning])
+      // We also have to stay visible when children go away while we are still shown.
+      if (!isTransitioning.current && !latestShow.current) hide()
+    }, [hide, latestShow, isTransitioning]),
+    { stagger, order, owner: id }
   )
 
-  useIsoMorphicEffect(() => register(id), [register, id])
+  // We only want to be part of the transitionable children of our parent while we are visible.
+  // Once hidden, we unregister ourselves so that the parent can continue (e.g. hide itself).
+  useIsoMorphicEffect(() => {
+    if (state !== TreeStates.Visible) return
+    const unregisterSelf = register(id)
+    // In case our parent sequences its children, it has to know whether we are done already.
+    settle(id, settledShow.current)
+    return unregisterSelf
+  }, [register, settle, settledShow, id, state])
 
   const enterClasses = useSplitClasses(enter)
   const enterFromClasses = useSplitClasses(enterFrom)
@@ -153,46 +553,183 @@ function TransitionChild<TTag extends HTMlTags = 'div'>(props: TransitionChildPr
   const leaveFromClasses = useSplitClasses(leaveFrom)
   const leaveToClasses = useSplitClasses(leaveTo)
 
+  const enterReducedClasses = useSplitClasses(enterReduced)
+  const leaveReducedClasses = useSplitClasses(leaveReduced)
+  const reduceMotion = useReducedMotion(reducedMotion)
+
+  const moveClasses = useSplitClasses(move)
+  const movables = React.useContext(MoveContext)
+
+  // Let the parent `Transition.Group` know that we want to transition to our new position when we
+  // get moved around.
+  useIsoMorphicEffect(() => {
+    if (movables === null || moveClasses.length <= 0 || reduceMotion || disabled) return
+    return movables.register(id, container, moveClasses)
+  }, [movables, id, container, moveClasses, reduceMotion, disabled])
+
   React.useEffect(() => {
     if (state === TreeStates.Visible && container.current === null) {
       throw new Error('Did you forget to passthrough the `ref` to the actual DOM node?')
     }
   }, [container, state])
 
+  // While `show` is true we are visible, even in the render that is about to update our `state`.
+  const transitionState = match<TreeStates, TransitionState>(show ? TreeStates.Visible : state, {
+    [TreeStates.Visible]: () => (show ? (entered.current ? 'entered' : 'entering') : 'leaving'),
+    [TreeStates.Hidden]: 'closed',
+  })
+
   useIsoMorphicEffect(() => {
+    reportState(transitionState)
+  }, [reportState, transitionState])
+
+  useIsoMorphicEffect(() => {
+    if (settledShow.current === show) return
+
     const node = container.current
 
     if (!node) return
 
-    // Skipping initial transition
-    if (initial && !appear) return
+    // Effects can be cleaned up and run again right away for the same `show` value (e.g. in
+    // `React.StrictMode`, or when the classes change). That cancels the transition we just started,
+    // only to start it again, which is not something the outside world should know about.
+    const cancelled = pendingCancel.current
+    pendingCancel.current = null
+    const restarted = cancelled !== null && cancelled.show === show
+
+    if (cancelled !== null && !restarted) cancelled.report()
 
     isTransitioning.current = true
+    settledShow.current = null
+    settle(id, null)
+    entered.current = false
 
-    return show
-      ? transition(node, enterClasses, enterFromClasses, enterToClasses, () => {
-          isTransitioning.current = false
-        })
-      : transition(node, leaveClasses, leaveFromClasses, leaveToClasses, reason => {
-          isTransitioning.current = false
+    if (!restarted) {
+      if (show) events.current.beforeEnter?.()
+      else events.current.beforeLeave?.()
+    }
 
-          if (reason !== Reason.Finished) return
+    // We only know whether a cancelled transition is restarted once the effect runs again (or
+    // doesn't run again before the next microtask).
+    function onCancel(show: boolean) {
+      const cancel = {
+        show,
+        report() {
+          latestDebug.current?.({ type: 'cancel', id, parent, show })
+          events.current.onCancel?.()
+        },
+      }
+      pendingCancel.current = cancel
 
-          // When we don't have children anymore we can safely unregister from the parent and hide
-          // ourselves.
-          if (nesting.children.current.length <= 0) {
-            setState(TreeStates.Hidden)
-            unregister(id)
-          }
-        })
+      Promise.resolve().then(() => {
+        if (pendingCancel.current !== cancel) return
+        pendingCancel.current = null
+        cancel.report()
+      })
+    }
+
+    function onEnter(reason: Reason) {
+      isTransitioning.current = false
+
+      if (reason === Reason.Finished) {
+        settledShow.current = true
+        settle(id, true)
+        entered.current = true
+        reportState('entered')
+        if (exposeState && mounted.current) forceRender()
+        events.current.afterEnter?.()
+      } else if (reason === Reason.Cancelled) {
+        onCancel(true)
+      }
+    }
+
+    function onLeave(reason: Reason) {
+      isTransitioning.current = false
+
+      if (reason === Reason.Cancelled) onCancel(false)
+      if (reason !== Reason.Finished) return
+
+      settledShow.current = false
+      settle(id, false)
+      events.current.afterLeave?.()
+
+      // When we don't have children anymore we can safely unregister from the parent and hide
+      // ourselves.
+      if (nesting.children.current.length <= 0) hide()
+    }
+
+    const [base, from, to, done] = show
+      ? [
+          reduceMotion ? enterReducedClasses : enterClasses,
+          enterFromClasses,
+          enterToClasses,
+          onEnter,
+        ]
+      : [
+          reduceMotion ? leaveReducedClasses : leaveClasses,
+          leaveFromClasses,
+          leaveToClasses,
+          onLeave,
+        ]
+
+    // When transitions are disabled, or when motion should be reduced and there are no alternative
+    // classes to use, we will skip the transition entirely and jump straight to the final state.
+    if (config.current.disabled || (reduceMotion && base.length <= 0)) {
+      return done(Reason.Finished)
+    }
+
+    // Our parent could want its children to start one after another, or to wait for each other.
+    const delay = parentNesting?.delay(id, show) ?? 0
+    const wait = (start: () => void) => sequence(id, show, start)
+
+    // Keyframes take precedence over the classes, unless the Web Animations API is not available in
+    // which case we fallback to the classes.
+    const [frames, frameOptions] = show
+      ? [keyframes.current.enterKeyframes, keyframes.current.enterKeyframeOptions]
+      : [keyframes.current.leaveKeyframes, keyframes.current.leaveKeyframeOptions]
+
+    if (!reduceMotion && frames !== undefined && typeof node.animate === 'function') {
+      // While entering we want to start from the first keyframe (even when there is a delay), while
+      // leaving we want to stay at the last keyframe until we are hidden.
+      const fill = show ? 'backwards' : 'forwards'
+      const options: KeyframeAnimationOptions = { fill, ...frameOptions }
+      if (delay > 0) options.delay = (options.delay ?? 0) + delay
+
+      return animate(node, frames, options, done, { ...config.current, wait })
+    }
+
+    const [fromStyle, toStyle] = show
+      ? [styles.current.enterFromStyle, styles.current.enterToStyle]
+      : [styles.current.leaveFromStyle, styles.current.leaveToStyle]
+
+    return transition(node, base, from, to, done, {
+      ...config.current,
+      delay,
+      wait,
+      fromStyle,
+      toStyle,
+    })
   }, [
     id,
+    parentNesting,
+    settle,
+    sequence,
+    parent,
+    latestDebug,
     isTransitioning,
-    unregister,
+    pendingCancel,
+    entered,
+    reportState,
+    exposeState,
+    events,
+    styles,
+    keyframes,
+    config,
+    hide,
     nesting,
+    mounted,
     container,
-    initial,
-    appear,
+    settledShow,
     show,
     enterClasses,
     enterFromClasses,
@@ -200,45 +737,223 @@ function TransitionChild<TTag extends HTMlTags = 'div'>(props: TransitionChildPr
     leaveClasses,
     leaveFromClasses,
     leaveToClasses,
+    enterReducedClasses,
+    leaveReducedClasses,
+    reduceMotion,
   ])
 
+  return {
+    mounted: transitionState !== 'closed' || !unmount,
+    state: transitionState,
+    nesting,
+  }
+}
+
+export function useTransition(
+  container: React.MutableRefObject<HTMLElement | null>,
+  options: TransitionOptions = {}
+) {
+  const { mounted, state } = useTransitionState(container, options)
+  return { mounted, state }
+}
+
+const TransitionChild = React.forwardRef(function TransitionChild(
+  props: TransitionChildProps<React.ElementType>,
+  ref: React.Ref<HTMLElement>
+) {
+  const {
+    children,
+    enter,
+    enterFrom,
+    enterTo,
+    leave,
+    leaveFrom,
+    leaveTo,
+    enterReduced,
+    leaveReduced,
+    move,
+    enterFromStyle,
+    enterToStyle,
+    leaveFromStyle,
+    leaveToStyle,
+    enterKeyframes,
+    enterKeyframeOptions,
+    leaveKeyframes,
+    leaveKeyframeOptions,
+    beforeEnter,
+    afterEnter,
+    beforeLeave,
+    afterLeave,
+    onCancel,
+    unmount = true,
+    reducedMotion,
+    preset,
+    stagger,
+    order,
+    ...rest
+  } = props
+  const container = React.useRef<HTMLElement | null>(null)
+  // When rendering as a Fragment, the ref ends up on the child, so we have to keep its own ref intact.
+  const childRef =
+    (rest as AsShortcut<React.ElementType>).as === React.Fragment && React.isValidElement(children)
+      ? (children as { ref?: React.Ref<HTMLElement> }).ref
+      : undefined
+  const transitionRef = useSyncRefs(container, ref, childRef)
+
+  // We follow the `show` and `appear` values of the parent `Transition`.
+  useTransitionContext()
+
+  const { mounted, state, nesting } = useTransitionState(
+    container,
+    {
+      enter,
+      enterFrom,
+      enterTo,
+      leave,
+      leaveFrom,
+      leaveTo,
+      enterReduced,
+      leaveReduced,
+      move,
+      enterFromStyle,
+      enterToStyle,
+      leaveFromStyle,
+      leaveToStyle,
+      enterKeyframes,
+      enterKeyframeOptions,
+      leaveKeyframes,
+      leaveKeyframeOptions,
+      beforeEnter,
+      afterEnter,
+      beforeLeave,
+      afterLeave,
+      onCancel,
+      unmount,
+      reducedMotion,
+      preset,
+      stagger,
+      order,
+    },
+    // Only a render prop gets to see whether the enter transition has finished.
+    typeof children === 'function'
+  )
+
+  // When we are kept around, we hide the DOM node instead. In case of a render prop we don't control
+  // the rendered element, so we have to update the DOM node ourselves. The inline `display` of the
+  // element (`null` while we are not hiding it) is restored once we are shown again.
+  const hiddenDisplay = React.useRef<string | null>(null)
+  useIsoMorphicEffect(() => {
+    const node = container.current
+
+    if (!node || unmount || typeof children !== 'function') return
+
+    if (state === 'closed') {
+      if (hiddenDisplay.current === null) hiddenDisplay.current = node.style.display
+      node.hidden = true
+      node.style.display = 'none'
+      node.setAttribute('aria-hidden', 'true')
+    } else if (hiddenDisplay.current !== null) {
+      node.hidden = false
+      node.style.display = hiddenDisplay.current
+      node.removeAttribute('aria-hidden')
+      hiddenDisplay.current = null
+    }
+  }, [container, unmount, children, state])
+
   // Unmount the whole tree
-  if (state === TreeStates.Hidden) return null
+  if (!mounted) return null
 
   if (typeof children === 'function') {
     return (
       <NestingContext.Provider value={nesting}>
-        {(children as AsRenderPropFunction['children'])(container)}
+        {(children as AsRenderPropFunction['children'])({ ref: transitionRef, state })}
+      </NestingContext.Provider>
+    )
+  }
+
+  const { as: Component = 'div', className, ...otherProps } = rest as AsShortcut<React.ElementType>
+  const passthroughProps = { ...otherProps, className: classNames(className) || undefined }
+  const hiddenProps =
+    state === 'closed'
+      ? {
+          hidden: true,
+          'aria-hidden': true,
+          style: {
+            ...(passthroughProps as React.HTMLAttributes<HTMLElement>).style,
+            display: 'none',
+          },
+        }
+      : {}
+
+  if (Component === React.Fragment) {
+    return (
+      <NestingContext.Provider value={nesting}>
+        {cloneFragmentChild(
+          children,
+          { ...passthroughProps, ...hiddenProps } as React.HTMLAttributes<HTMLElement>,
+          transitionRef
+        )}
       </NestingContext.Provider>
     )
   }
 
-  const { as: Component = 'div', ...passthroughProps } = rest as AsShortcut<TTag>
   return (
     <NestingContext.Provider value={nesting}>
-      {/* @ts-expect-error Expression produces a union type that is too complex to represent. */}
-      <Component {...passthroughProps} ref={container}>
+      <Component {...passthroughProps} {...hiddenProps} ref={transitionRef}>
         {children}
       </Component>
     </NestingContext.Provider>
   )
+}) as <TTag extends React.ElementType = 'div'>(
+  props: TransitionChildProps<TTag> & ForwardedRef<TTag>
+) => JSX.Element | null
+
+function cloneFragmentChild(
+  children: React.ReactNode,
+  props: React.HTMLAttributes<HTMLElement>,
+  ref: React.Ref<HTMLElement>
+) {
+  const elements = React.Children.toArray(children)
+  const [child] = elements
+
+  // Only DOM elements and components using `React.forwardRef` can pass the ref to an actual DOM node.
+  if (
+    elements.length !== 1 ||
+    !React.isValidElement<React.HTMLAttributes<HTMLElement>>(child) ||
+    typeof child.type === 'function' ||
+    (child.type as React.ElementType) === React.Fragment
+  ) {
+    throw new Error(
+      'A <Transition as={Fragment} /> expects a single element as its child, which can hold a `ref` to an actual DOM node (a DOM element or a component using `React.forwardRef`).'
+    )
+  }
+
+  return React.cloneElement(child, {
+    ...props,
+    ref,
+    className: classNames(child.props.className, props.className) || undefined,
+    style: { ...child.props.style, ...props.style },
+  } as React.HTMLAttributes<HTMLElement>)
 }
 
-export function Transition<TTag extends HTMlTags = 'div'>(
-  props: TransitionChildProps<TTag> & { show: boolean; appear?: boolean }
+const TransitionRoot = React.forwardRef(function Transition(
+  props: TransitionChildProps<React.ElementType> & { show: boolean; appear?: boolean },
+  ref: React.Ref<HTMLElement>
 ) {
-  const { show, appear = false, ...rest } = props
+  const { show, appear = false, unmount = true, ...rest } = props
 
   if (![true, false].includes(show)) {
     throw new Error('A <Transition /> is used but it is missing a `show={true | false}` prop.')
   }
 
   const [state, setState] = React.useState(show ? TreeStates.Visible : TreeStates.Hidden)
+  const latestShow = useLatestValue(show)
 
   const nestingBag = useNesting(
     React.useCallback(() => {
-      setState(TreeStates.Hidden)
-    }, [])
+      // Children can unregister while we are still shown, e.g. when their effects are re-run.
+      if (!latestShow.current) setState(TreeStates.Hidden)
+    }, [latestShow])
   )
 
   const initial = useIsInitialRender()
@@ -259,12 +974,352 @@ export function Transition<TTag extends HTMlTags = 'div'>(
     <NestingContext.Provider value={nestingBag}>
       <TransitionContext.Provider value={transitionBag}>
         {match(state, {
-          [TreeStates.Visible]: () => <TransitionChild {...rest} />,
-          [TreeStates.Hidden]: null,
+          [TreeStates.Visible]: () => <TransitionChild {...rest} ref={ref} unmount={unmount} />,
+          [TreeStates.Hidden]: unmount
+            ? null
+            : () => <TransitionChild {...rest} ref={ref} unmount={unmount} />,
         })}
       </TransitionContext.Provider>
     </NestingContext.Provider>
   )
+}) as <TTag extends React.ElementType = 'div'>(
+  props: TransitionChildProps<TTag> & ForwardedRef<TTag> & { show: boolean; appear?: boolean }
+) => JSX.Element | null
+
+type TransitionGroupEntry = {
+  key: React.Key
+  element: React.ReactElement
+  show: boolean
 }
 
-Transition.Child = TransitionChild
+function mergeEntries(previous: TransitionGroupEntry[], next: React.ReactElement[]) {
+  const nextKeys = new Set(next.map(element => element.key))
+
+  // Entries that got removed are kept around (while leaving) at their previous position, which is
+  // right before the next entry that is still around.
+  const leavingEntries = new Map<React.Key, TransitionGroupEntry[]>()
+  let pending: TransitionGroupEntry[] = []
+
+  for (let entry of previous) {
+    if (!nextKeys.has(entry.key)) {
+      pending.push({ ...entry, show: false })
+    } else if (pending.length > 0) {
+      leavingEntries.set(entry.key, pending)
+      pending = []
+    }
+  }
+
+  const entries: TransitionGroupEntry[] = []
+
+  for (let element of next) {
+    entries.push(...(leavingEntries.get(element.key!) ?? []))
+    entries.push({ key: element.key!, element, show: true })
+  }
+
+  return entries.concat(pending)
+}
+
+function TransitionGroupItem(props: {
+  entryKey: React.Key
+  show: boolean
+  appear: boolean
+  onLeft: (key: React.Key) => void
+  onEntered?: (key: React.Key) => void
+  children: React.ReactElement
+}) {
+  const { entryKey, show, appear, onLeft, onEntered, children } = props
+  const latestShow = useLatestValue(show)
+
+  const nesting = useNesting(
+    React.useCallback(() => {
+      if (!latestShow.current) onLeft(entryKey)
+    }, [latestShow, onLeft, entryKey]),
+    // Our children let us know once they have entered, no matter how deeply they are rendered.
+    { entered: React.useCallback(() => onEntered?.(entryKey), [onEntered, entryKey]) }
+  )
+
+  // Whether we should appear is decided once when the item is added to the group.
+  const [shouldAppear] = React.useState(appear)
+  const transitionBag = React.useMemo<TransitionContextValues>(
+    () => ({ show, appear: shouldAppear }),
+    [show, shouldAppear]
+  )
+
+  React.useEffect(() => {
+    if (!show && nesting.children.current.length <= 0) onLeft(entryKey)
+  }, [show, nesting, onLeft, entryKey])
+
+  return (
+    <NestingContext.Provider value={nesting}>
+      <TransitionContext.Provider value={transitionBag}>{children}</TransitionContext.Provider>
+    </NestingContext.Provider>
+  )
+}
+
+function useEntries(resolve: (previous: TransitionGroupEntry[]) => TransitionGroupEntry[]) {
+  const [, forceRender] = React.useReducer((count: number) => count + 1, 0)
+
+  // The entries that are currently rendered, including the ones that are still leaving.
+  const rendered = React.useRef<TransitionGroupEntry[]>([])
+
+  const entries = resolve(rendered.current)
+
+  useIsoMorphicEffect(() => {
+    rendered.current = entries
+  })
+
+  const handleLeft = React.useCallback((key: React.Key) => {
+    rendered.current = rendered.current.filter(entry => entry.show || entry.key !== key)
+    forceRender()
+  }, [])
+
+  return [entries, handleLeft, forceRender] as const
+}
+
+function haveSameKeys(a: TransitionGroupEntry[], z: TransitionGroupEntry[]) {
+  return a.length === z.length && a.every((entry, i) => entry.key === z[i].key)
+}
+
+type MeasureMovesProps = {
+  entries: TransitionGroupEntry[]
+  measure(): Map<ID, DOMRect>
+  move(positions: Map<ID, DOMRect>): void
+  children: React.ReactElement
+}
+
+// The positions have to be measured right before the DOM gets updated, which is only possible in the
+// `getSnapshotBeforeUpdate` of a class component. Unlike the render, it only runs for updates that
+// are actually committed. The children can only move when the (keyed) entries change, so that's
+// the only time we measure.
+class MeasureMoves extends React.Component<MeasureMovesProps> {
+  getSnapshotBeforeUpdate(previous: MeasureMovesProps) {
+    return haveSameKeys(previous.entries, this.props.entries) ? null : this.props.measure()
+  }
+
+  componentDidUpdate(
+    _previous: MeasureMovesProps,
+    _state: unknown,
+    positions: Map<ID, DOMRect> | null
+  ) {
+    if (positions !== null) this.props.move(positions)
+  }
+
+  render() {
+    return this.props.children
+  }
+}
+
+function TransitionGroup<TTag extends React.ElementType = 'div'>(
+  props: AsShortcut<TTag> & { appear?: boolean }
+) {
+  const { children, appear = false, as: Component = 'div', className, ...passthroughProps } = props
+
+  const initial = useIsInitialRender()
+  const [entries, handleLeft] = useEntries(previous =>
+    mergeEntries(previous, React.Children.toArray(children).filter(React.isValidElement))
+  )
+
+  const movables = React.useRef(
+    new Map<ID, { container: React.MutableRefObject<HTMLElement | null>; classes: string[] }>()
+  )
+  const moves = React.useRef(new Map<ID, () => void>())
+  const moveBag = React.useMemo<MoveContextValues>(
+    () => ({
+      register(id, container, classes) {
+        movables.current.set(id, { container, classes })
+        return () => {
+          movables.current.delete(id)
+          moves.current.get(id)?.()
+          moves.current.delete(id)
+        }
+      },
+    }),
+    []
+  )
+
+  // Record the positions of the movable children before the DOM gets updated. These positions
+  // include the offset of moves that are still running, so that interrupted moves can continue from
+  // where they currently are.
+  const measure = React.useCallback(() => {
+    const positions = new Map<ID, DOMRect>()
+    movables.current.forEach(({ container }, id) => {
+      if (container.current) positions.set(id, container.current.getBoundingClientRect())
+    })
+    return positions
+  }, [])
+
+  const move = React.useCallback((positions: Map<ID, DOMRect>) => {
+    movables.current.forEach(({ container, classes }, id) => {
+      const node = container.current
+      const previous = positions.get(id)
+
+      if (!node || !previous) return
+
+      // Cancel a running move first, so that we measure the actual new position.
+      moves.current.get(id)?.()
+      moves.current.delete(id)
+
+      const next = node.getBoundingClientRect()
+      const offset = { x: previous.left - next.left, y: previous.top - next.top }
+
+      if (offset.x === 0 && offset.y === 0) return
+
+      moves.current.set(
+        id,
+        moveTransition(node, offset, classes, () => moves.current.delete(id))
+      )
+    })
+  }, [])
+
+  return (
+    <MoveContext.Provider value={moveBag}>
+      <MeasureMoves entries={entries} measure={measure} move={move}>
+        <Component {...passthroughProps} className={classNames(className) || undefined}>
+          {entries.map(entry => (
+            <TransitionGroupItem
+              key={entry.key}
+              entryKey={entry.key}
+              show={entry.show}
+              appear={appear || !initial}
+              onLeft={handleLeft}
+            >
+              {entry.element}
+            </TransitionGroupItem>
+          ))}
+        </Component>
+      </MeasureMoves>
+    </MoveContext.Provider>
+  )
+}
+
+type TransitionSwitchMode = 'out-in' | 'in-out' | 'simultaneous'
+
+const leaveProps = [
+  'leave',
+  'leaveFrom',
+  'leaveTo',
+  'leaveReduced',
+  'leaveFromStyle',
+  'leaveToStyle',
+  'leaveKeyframes',
+  'leaveKeyframeOptions',
+] as const
+
+// The content that is leaving was rendered before we knew what would replace it. The leave props of
+// the current child are applied to it, so that e.g. the direction of a slide can depend on the
+// content that is entering.
+function withLeaveProps(leaving: React.ReactElement, current: React.ReactElement | null) {
+  if (current === null) return leaving
+
+  const props: Record<string, unknown> = {}
+  for (let prop of leaveProps) {
+    if (current.props[prop] !== undefined) props[prop] = current.props[prop]
+  }
+
+  return Object.keys(props).length > 0 ? React.cloneElement(leaving, props) : leaving
+}
+
+function resolveSwitchEntries(
+  previous: TransitionGroupEntry[],
+  element: React.ReactElement | null,
+  mode: TransitionSwitchMode,
+  enteredKey: React.Key | null
+) {
+  const key = element === null ? null : element.key!
+  const existing = previous.find(entry => entry.key === key)
+
+  // In `in-out` mode the other entries stay around until the new entry has entered.
+  const leaveOthers =
+    mode !== 'in-out' || key === null || key === enteredKey || existing?.show === true
+
+  const entries = previous.map(entry =>
+    entry.key === key
+      ? { key: entry.key, element: element!, show: true }
+      : leaveOthers
+      ? { ...entry, element: withLeaveProps(entry.element, element), show: false }
+      : entry
+  )
+
+  if (element === null || existing !== undefined) return entries
+
+  // In `out-in` mode the new entry has to wait until the other entries have left.
+  if (mode === 'out-in' && entries.length > 0) return entries
+
+  return [...entries, { key: key!, element, show: true }]
+}
+
+function TransitionSwitch<TTag extends React.ElementType = 'div'>(
+  props: AsShortcut<TTag> & { appear?: boolean; mode?: TransitionSwitchMode }
+) {
+  const {
+    children,
+    appear = false,
+    mode = 'out-in',
+    as: Component = 'div',
+    className,
+    ...passthroughProps
+  } = props
+
+  const [element = null] = React.Children.toArray(children).filter(React.isValidElement)
+  const entered = React.useRef<React.Key | null>(null)
+
+  const initial = useIsInitialRender()
+  const [entries, handleLeft, forceRender] = useEntries(previous =>
+    resolveSwitchEntries(previous, element, mode, entered.current)
+  )
+
+  const handleEntered = React.useCallback(
+    (key: React.Key) => {
+      if (entered.current === key) return
+      entered.current = key
+      forceRender()
+    },
+    [forceRender]
+  )
+
+  return (
+    <Component {...passthroughProps} className={classNames(className) || undefined}>
+      {entries.map(entry => (
+        <TransitionGroupItem
+          key={entry.key}
+          entryKey={entry.key}
+          show={entry.show}
+          appear={appear || !initial}
+          onLeft={handleLeft}
+          onEntered={mode === 'in-out' ? handleEntered : undefined}
+        >
+          {entry.element}
+        </TransitionGroupItem>
+      ))}
+    </Component>
+  )
+}
+
+export const Transition = Object.assign(TransitionRoot, {
+  Child: TransitionChild,
+  Group: TransitionGroup,
+  Switch: TransitionSwitch,
+})
+
+export function TransitionConfig(
+  props: Partial<TransitionConfigValues> & { children?: React.ReactNode }
+) {
+  const { children, reducedMotion, defaults, presets, durationMultiplier, disabled, debug } = props
+  const parent = React.useContext(TransitionConfigContext)
+
+  const config = React.useMemo<TransitionConfigValues>(
+    () => ({
+      reducedMotion: reducedMotion ?? parent.reducedMotion,
+      defaults: { ...parent.defaults, ...defaults },
+      presets: { ...parent.presets, ...presets },
+      durationMultiplier: durationMultiplier ?? parent.durationMultiplier,
+      disabled: disabled ?? parent.disabled,
+      debug: debug ?? parent.debug,
+    }),
+    [parent, reducedMotion, defaults, presets, durationMultiplier, disabled, debug]
+  )
+
+  return (
+    <TransitionConfigContext.Provider value={config}>{children}</TransitionConfigContext.Provider>
+  )
+}
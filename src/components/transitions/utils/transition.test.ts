@@ -1,4 +1,4 @@
-import { Reason, transition } from './transition'
+import { Reason, enter, leave, move, splitClasses, transition } from './transition'
 
 import { reportChanges } from '../../../test-utils/report-dom-node-changes'
 import { disposables } from '../../../utils/disposables'
@@ -7,6 +7,15 @@ beforeEach(() => {
   document.body.innerHTML = ''
 })
 
+// JSDOM doesn't implement the `TransitionEvent` and `AnimationEvent`, the name is the transitioned
+// property (or the animation) that ended.
+function endEvent(type: 'transitionend' | 'animationend', name: string) {
+  return Object.assign(
+    new Event(type),
+    type === 'transitionend' ? { propertyName: name } : { animationName: name }
+  )
+}
+
 it('should be possible to transition', async () => {
   const d = disposables()
 
@@ -191,3 +200,545 @@ it('should be possible to cancel a transition at any time', async () => {
 
   expect(snapshots.map(snapshot => snapshot.content).join('\n')).not.toContain('enterTo')
 })
+
+it('should finish the transition as soon as the `transitionend` event fires', async () => {
+  const element = document.createElement('div')
+  document.body.appendChild(element)
+
+  // This duration is so overkill, however it will demonstrate that we don't wait for it.
+  element.style.transitionDuration = '5000ms'
+
+  const start = process.hrtime.bigint()
+
+  const reason = await new Promise(resolve => {
+    transition(element, ['enter'], ['enterFrom'], ['enterTo'], resolve)
+
+    // Wait for the `to` classes to be applied, this is where we start listening for events.
+    setTimeout(() => element.dispatchEvent(endEvent('transitionend', 'opacity')), 100)
+  })
+
+  expect(reason).toBe(Reason.Finished)
+  expect(Number((process.hrtime.bigint() - start) / BigInt(1e6))).toBeLessThan(1000)
+  expect(element.className).toEqual('')
+})
+
+it('should wait for the `transitionend` event of the longest transitioned property', async () => {
+  const element = document.createElement('div')
+  document.body.appendChild(element)
+
+  element.style.transitionProperty = 'opacity, transform'
+  element.style.transitionDuration = '50ms, 5000ms'
+
+  const events: string[] = []
+
+  const reason = await new Promise(resolve => {
+    transition(element, ['enter'], ['enterFrom'], ['enterTo'], reason => {
+      events.push('done')
+      resolve(reason)
+    })
+
+    // Wait for the `to` classes to be applied, this is where we start listening for events.
+    setTimeout(() => {
+      element.dispatchEvent(endEvent('transitionend', 'opacity'))
+      events.push('opacity ended')
+    }, 100)
+    setTimeout(() => {
+      element.dispatchEvent(endEvent('transitionend', 'transform'))
+      events.push('transform ended')
+    }, 150)
+  })
+
+  expect(reason).toBe(Reason.Finished)
+  // The transition only finishes once the `transform` transition ended, not the `opacity` one.
+  expect(events).toEqual(['opacity ended', 'done', 'transform ended'])
+})
+
+it('should take the delay into account when looking for the longest transitioned property', async () => {
+  const element = document.createElement('div')
+  document.body.appendChild(element)
+
+  element.style.transitionProperty = 'opacity, transform'
+  element.style.transitionDuration = '5000ms, 5000ms'
+  element.style.transitionDelay = '0ms, 50ms'
+
+  const events: string[] = []
+
+  const reason = await new Promise(resolve => {
+    transition(element, ['enter'], ['enterFrom'], ['enterTo'], reason => {
+      events.push('done')
+      resolve(reason)
+    })
+
+    // Both transitions take equally long, but the `transform` one starts later.
+    setTimeout(() => {
+      element.dispatchEvent(endEvent('transitionend', 'opacity'))
+      events.push('opacity ended')
+    }, 100)
+    setTimeout(() => {
+      element.dispatchEvent(endEvent('transitionend', 'transform'))
+      events.push('transform ended')
+    }, 150)
+  })
+
+  expect(reason).toBe(Reason.Finished)
+  expect(events).toEqual(['opacity ended', 'done', 'transform ended'])
+})
+
+it('should finish the transition when the `transitioncancel` event fires', async () => {
+  const element = document.createElement('div')
+  document.body.appendChild(element)
+
+  element.style.transitionDuration = '5000ms'
+
+  const start = process.hrtime.bigint()
+
+  const reason = await new Promise(resolve => {
+    transition(element, ['enter'], ['enterFrom'], ['enterTo'], resolve)
+
+    // Wait for the `to` classes to be applied, this is where we start listening for events.
+    setTimeout(() => element.dispatchEvent(new Event('transitioncancel')), 100)
+  })
+
+  expect(reason).toBe(Reason.Finished)
+  expect(Number((process.hrtime.bigint() - start) / BigInt(1e6))).toBeLessThan(1000)
+  expect(element.className).toEqual('')
+})
+
+it('should ignore `transitionend` events of children', async () => {
+  const d = disposables()
+
+  const element = document.createElement('div')
+  const child = document.createElement('span')
+  element.appendChild(child)
+  document.body.appendChild(element)
+
+  const duration = 50
+
+  element.style.transitionDuration = `${duration}ms`
+
+  const start = process.hrtime.bigint()
+
+  const reason = await new Promise(resolve => {
+    transition(element, ['enter'], ['enterFrom'], ['enterTo'], resolve)
+
+    d.setTimeout(() => child.dispatchEvent(new Event('transitionend', { bubbles: true })), 40)
+  })
+
+  const estimatedDuration = Number((process.hrtime.bigint() - start) / BigInt(1e6))
+
+  expect(reason).toBe(Reason.Finished)
+  expect(estimatedDuration).toBeGreaterThanOrEqual(duration)
+
+  d.dispose()
+})
+
+describe('keyframe animations', () => {
+  it('should wait for the animation duration, delay and iteration count', async () => {
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    const duration = 20
+    const delayDuration = 30
+    const iterationCount = 2
+
+    element.style.animationDuration = `${duration}ms`
+    element.style.animationDelay = `${delayDuration}ms`
+    element.style.animationIterationCount = `${iterationCount}`
+
+    let start = BigInt(0)
+
+    const reason = await new Promise(resolve => {
+      transition(element, ['enter'], ['enterFrom'], ['enterTo'], resolve)
+
+      // The animation duration is resolved once the `to` classes are applied.
+      requestAnimationFrame(() =>
+        requestAnimationFrame(() => {
+          start = process.hrtime.bigint()
+        })
+      )
+    })
+
+    const estimatedDuration = Number((process.hrtime.bigint() - start) / BigInt(1e6))
+
+    expect(reason).toBe(Reason.Finished)
+    expect(estimatedDuration).toBeWithinRenderFrame(delayDuration + duration * iterationCount)
+  })
+
+  it('should wait for the longest of the transition and the animation', async () => {
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.transitionDuration = '5000ms'
+    element.style.animationName = 'spin'
+    element.style.animationDuration = '20ms'
+
+    const reason = await new Promise(resolve => {
+      transition(element, ['enter'], ['enterFrom'], ['enterTo'], resolve)
+
+      // The `animationend` event should be ignored, because the transition takes longer.
+      setTimeout(() => element.dispatchEvent(endEvent('animationend', 'spin')), 100)
+      setTimeout(() => element.dispatchEvent(endEvent('transitionend', 'opacity')), 150)
+    })
+
+    expect(reason).toBe(Reason.Finished)
+    expect(element.className).toEqual('')
+  })
+
+  it('should finish the transition as soon as the `animationend` event fires', async () => {
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.animationName = 'spin'
+    element.style.animationDuration = '5000ms'
+
+    const start = process.hrtime.bigint()
+
+    const reason = await new Promise(resolve => {
+      transition(element, ['enter'], ['enterFrom'], ['enterTo'], resolve)
+
+      // Wait for the `to` classes to be applied, this is where we start listening for events.
+      setTimeout(() => element.dispatchEvent(endEvent('animationend', 'spin')), 100)
+    })
+
+    expect(reason).toBe(Reason.Finished)
+    expect(Number((process.hrtime.bigint() - start) / BigInt(1e6))).toBeLessThan(1000)
+  })
+
+  it('should not wait for infinite animations', async () => {
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.animationDuration = '5000ms'
+    element.style.animationIterationCount = 'infinite'
+
+    const start = process.hrtime.bigint()
+
+    const reason = await new Promise(resolve => {
+      transition(element, ['enter'], ['enterFrom'], ['enterTo'], resolve)
+    })
+
+    expect(reason).toBe(Reason.Finished)
+    expect(Number((process.hrtime.bigint() - start) / BigInt(1e6))).toBeLessThan(1000)
+  })
+})
+
+describe('move', () => {
+  it('should transition from the previous position to the new position', async () => {
+    const d = disposables()
+
+    const snapshots: { content: string; recordedAt: bigint }[] = []
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    const duration = 20
+
+    d.add(
+      reportChanges(
+        () => document.body.innerHTML,
+        content => {
+          snapshots.push({
+            content,
+            recordedAt: process.hrtime.bigint(),
+          })
+        }
+      )
+    )
+
+    const style = document.createElement('style')
+    style.textContent = `.move { transition-duration: ${duration}ms; }`
+    document.head.appendChild(style)
+
+    const reason = await new Promise(resolve => {
+      move(element, { x: 0, y: 40 }, ['move'], resolve)
+    })
+
+    await new Promise(resolve => d.nextFrame(resolve))
+    expect(reason).toBe(Reason.Finished)
+
+    // Initial render:
+    expect(snapshots[0].content).toEqual('<div></div>')
+
+    // Invert, put the element back at its previous position
+    expect(snapshots[1].content).toEqual(
+      '<div style="transform: translate(0px, 40px); transition-duration: 0s;"></div>'
+    )
+
+    // Play, transition to the new position
+    expect(snapshots[2].content).toEqual('<div style="" class="move"></div>')
+
+    // Cleanup phase
+    expect(snapshots[3].content).toEqual('<div style="" class=""></div>')
+
+    style.remove()
+    await d.dispose()
+  })
+
+  it('should be possible to cancel a move at any time', async () => {
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    expect.assertions(3)
+
+    const cancel = move(element, { x: 10, y: 0 }, ['move'], reason => {
+      expect(reason).toBe(Reason.Cancelled)
+    })
+
+    cancel()
+
+    expect(element.style.transform).toEqual('')
+    expect(element.className).toEqual('')
+  })
+
+  it('should restore the inline styles that were set before the move', async () => {
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.transform = 'scale(0.95)'
+    element.style.transitionDuration = '20ms'
+
+    const reason = await new Promise(resolve => {
+      move(element, { x: 10, y: 0 }, ['move'], resolve)
+
+      // Move relative to the current transform, without transitioning to the previous position.
+      expect(element.style.transform).toEqual('translate(10px, 0px) scale(0.95)')
+      expect(element.style.transitionDuration).toEqual('0s')
+    })
+
+    expect(reason).toBe(Reason.Finished)
+    expect(element.style.transform).toEqual('scale(0.95)')
+    expect(element.style.transitionDuration).toEqual('20ms')
+  })
+})
+
+describe('enter & leave', () => {
+  it('should resolve with the reason once the enter transition is finished', async () => {
+    const d = disposables()
+
+    const snapshots: string[] = []
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.transitionDuration = '20ms'
+
+    d.add(
+      reportChanges(
+        () => element.className,
+        content => snapshots.push(content)
+      )
+    )
+
+    const reason = await enter(element, {
+      enter: 'enter',
+      enterFrom: 'enterFrom',
+      enterTo: 'enterTo',
+    })
+
+    await new Promise(resolve => d.nextFrame(resolve))
+    expect(reason).toBe(Reason.Finished)
+    expect(snapshots).toEqual(['', 'enter enterFrom', 'enter enterTo', ''])
+
+    await d.dispose()
+  })
+
+  it('should resolve with the reason once the leave transition is finished', async () => {
+    const d = disposables()
+
+    const snapshots: string[] = []
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.transitionDuration = '20ms'
+
+    d.add(
+      reportChanges(
+        () => element.className,
+        content => snapshots.push(content)
+      )
+    )
+
+    const reason = await leave(element, {
+      leave: 'leave',
+      leaveFrom: 'leaveFrom',
+      leaveTo: 'leaveTo',
+    })
+
+    await new Promise(resolve => d.nextFrame(resolve))
+    expect(reason).toBe(Reason.Finished)
+    expect(snapshots).toEqual(['', 'leave leaveFrom', 'leave leaveTo', ''])
+
+    await d.dispose()
+  })
+
+  it('should apply the inline styles and restore the previous ones afterwards', async () => {
+    const d = disposables()
+
+    const snapshots: string[] = []
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.transitionDuration = '20ms'
+    element.style.height = '10px'
+
+    d.add(
+      reportChanges(
+        () => element.getAttribute('style')!,
+        content => snapshots.push(content)
+      )
+    )
+
+    const reason = await enter(element, {
+      enter: 'enter',
+      enterFromStyle: { height: 0, opacity: 0 },
+      enterToStyle: { height: '120px', opacity: 1 },
+    })
+
+    await new Promise(resolve => d.nextFrame(resolve))
+    expect(reason).toBe(Reason.Finished)
+    expect(snapshots).toEqual([
+      'transition-duration: 20ms; height: 10px;',
+      'transition-duration: 20ms; height: 0px; opacity: 0;',
+      'transition-duration: 20ms; height: 120px; opacity: 1;',
+      'transition-duration: 20ms; height: 10px;',
+    ])
+
+    await d.dispose()
+  })
+
+  it('should resolve the inline styles just like React does', async () => {
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    // JSDOM ignores the properties it doesn't know about, so we look at what is being set instead.
+    const spy = jest.spyOn(element.style, 'setProperty')
+
+    await enter(element, {
+      enter: 'enter',
+      enterFromStyle: {
+        height: 120,
+        width: 0,
+        zoom: 2,
+        columnCount: 3,
+        fillOpacity: 0.5,
+        WebkitLineClamp: 2,
+        msTransform: 'scale(0.95)',
+        backgroundColor: ' red ',
+        color: '',
+      },
+    })
+
+    expect(spy.mock.calls).toEqual([
+      ['height', '120px'],
+      ['width', '0'],
+      ['zoom', '2'],
+      ['column-count', '3'],
+      ['fill-opacity', '0.5'],
+      ['-webkit-line-clamp', '2'],
+      ['-ms-transform', 'scale(0.95)'],
+      ['background-color', 'red'],
+    ])
+  })
+
+  it('should be possible to cancel the transition at any time', async () => {
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.transitionDuration = '5000ms'
+
+    const promise = leave(element, { leave: 'leave', leaveFrom: 'leaveFrom', leaveTo: 'leaveTo' })
+
+    await new Promise(resolve => setTimeout(resolve, 20))
+    promise.cancel()
+
+    expect(await promise).toBe(Reason.Cancelled)
+    expect(element.className).toEqual('')
+  })
+})
+
+describe('development warnings', () => {
+  function transitionAsync(element: HTMLElement, base: string[], from: string[], to: string[]) {
+    return new Promise(resolve => transition(element, base, from, to, resolve))
+  }
+
+  it('should warn once when the transition classes resolve to a duration of 0ms', async () => {
+    const spy = jest.spyOn(console, 'warn').mockImplementation(jest.fn())
+
+    const element = document.createElement('div')
+    element.id = 'panel'
+    document.body.appendChild(element)
+
+    element.style.transitionDuration = '0s'
+
+    await transitionAsync(element, ['enter'], ['enterFrom'], ['enterTo'])
+    await transitionAsync(element, ['enter'], ['enterFrom'], ['enterTo'])
+
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(spy.mock.calls[0]).toEqual([
+      'The transition classes (`enter`) of <div id="panel"> resolve to a duration of 0ms, so the transition finishes immediately. Did you forget a `duration-*` class?',
+      element,
+    ])
+
+    spy.mockRestore()
+  })
+
+  it('should not warn about the duration when it is not computed', async () => {
+    const spy = jest.spyOn(console, 'warn').mockImplementation(jest.fn())
+
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    await transitionAsync(element, ['enter'], ['enterFrom'], ['enterTo'])
+
+    expect(spy).not.toHaveBeenCalled()
+
+    spy.mockRestore()
+  })
+
+  it('should warn when the from and to classes are identical', async () => {
+    const spy = jest.spyOn(console, 'warn').mockImplementation(jest.fn())
+
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.transitionDuration = '20ms'
+
+    await transitionAsync(element, ['enter'], ['opacity-0'], ['opacity-0'])
+
+    expect(spy.mock.calls).toEqual([
+      [
+        'The from and to classes (`opacity-0`) of <div> are identical, so there is nothing to transition.',
+        element,
+      ],
+    ])
+
+    spy.mockRestore()
+  })
+
+  it('should not warn when the transition is configured correctly', async () => {
+    const spy = jest.spyOn(console, 'warn').mockImplementation(jest.fn())
+
+    const element = document.createElement('div')
+    document.body.appendChild(element)
+
+    element.style.animationDuration = '5000ms'
+    element.style.animationIterationCount = 'infinite'
+
+    await transitionAsync(element, ['enter'], ['enterFrom'], ['enterTo'])
+
+    expect(spy).not.toHaveBeenCalled()
+
+    spy.mockRestore()
+  })
+
+  it('should warn about single character classes that are ignored', () => {
+    const spy = jest.spyOn(console, 'warn').mockImplementation(jest.fn())
+
+    expect(splitClasses('transition a b duration-75')).toEqual(['transition', 'duration-75'])
+    expect(spy.mock.calls).toEqual([
+      [
+        'The single character classes (`a`, `b`) in `transition a b duration-75` are ignored, transition classes have to be at least 2 characters long.',
+      ],
+    ])
+
+    spy.mockRestore()
+  })
+})
@@ -1,6 +1,18 @@
+import { CSSProperties } from 'react'
+
 import { once } from '../../../utils/once'
 import { disposables } from '../../../utils/disposables'
 
+function noop() {}
+
+// Postpones the start of a transition (e.g. until it is our turn), returns a function to stop waiting.
+type Wait = (start: () => void) => () => void
+
+function immediately(start: () => void) {
+  start()
+  return noop
+}
+
 function addClasses(node: HTMLElement, ...classes: string[]) {
   node && classes.length > 0 && node.classList.add(...classes)
 }
@@ -9,74 +21,529 @@ function removeClasses(node: HTMLElement, ...classes: string[]) {
   node && classes.length > 0 && node.classList.remove(...classes)
 }
 
+export function splitClasses(classes: string = '') {
+  if (process.env.NODE_ENV !== 'production') {
+    const ignored = classes.split(' ').filter(className => className.trim().length === 1)
+
+    if (ignored.length > 0) {
+      const list = ignored.map(className => `\`${className}\``).join(', ')
+      warnOnce(
+        `The single character classes (${list}) in \`${classes}\` are ignored, transition classes have to be at least 2 characters long.`
+      )
+    }
+  }
+
+  return classes.split(' ').filter(className => className.trim().length > 1)
+}
+
 export enum Reason {
   Finished = 'finished',
   Cancelled = 'cancelled',
 }
 
-function waitForTransition(node: HTMLElement, done: (reason: Reason) => void) {
-  const d = disposables()
+function isAnimating(node: HTMLElement) {
+  // Not every environment (e.g. older browsers and JSDOM) implements the Web Animations API, in
+  // which case we can't tell and will trust the computed durations instead.
+  if (typeof node.getAnimations !== 'function') return false
 
-  if (!node) return d.dispose
-
-  // Safari returns a comma separated list of values, so let's sort them and take the highest value.
-  const { transitionDuration, transitionDelay } = getComputedStyle(node)
+  return node
+    .getAnimations()
+    .some(
+      animation =>
+        animation.playState === 'running' &&
+        animation.effect?.getComputedTiming().endTime !== Infinity
+    )
+}
 
-  const [durationMs, delaysMs] = [transitionDuration, transitionDelay].map(value => {
-    const [resolvedValue = 0] = value
+function parseTimes(value: string) {
+  return (
+    value
       .split(',')
       // Remove falseys we can't work with
       .filter(Boolean)
       // Values are returned as `0.3s` or `75ms`
       .map(v => (v.includes('ms') ? parseFloat(v) : parseFloat(v) * 1000))
-      .sort((a, z) => z - a)
+  )
+}
+
+// The transitioned properties (or animation names), falling back to the initial value when the
+// environment (e.g. JSDOM) doesn't compute it.
+function parseNames(value: string, initial: string) {
+  const names = value
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+  return names.length > 0 ? names : [initial]
+}
+
+type Timing = { name: string; delay: number; duration: number }
+
+function resolveTimings(
+  names: string[],
+  durations: string,
+  delays: string,
+  iterations: string = '1'
+): Timing[] {
+  const [durationsMs, delaysMs, iterationCounts] = [
+    parseTimes(durations),
+    parseTimes(delays),
+    iterations.split(',').map(v => {
+      if (v.trim() === 'infinite') return Infinity
+
+      // Fallback to the initial `animation-iteration-count` value
+      const iterationCount = parseFloat(v)
+      return isNaN(iterationCount) ? 1 : iterationCount
+    }),
+  ]
+
+  // Browsers return a comma separated list of values (one for each transitioned property or
+  // animation). Shorter lists are repeated and longer lists are cut off, just like the browser does.
+  // Infinite animations will never end, so there is nothing to wait for.
+  return names
+    .map((name, i) => ({
+      name,
+      delay: delaysMs[i % delaysMs.length] ?? 0,
+      duration:
+        (durationsMs[i % durationsMs.length] ?? 0) *
+        (iterationCounts[i % iterationCounts.length] ?? 1),
+    }))
+    .filter(({ duration }) => duration > 0 && isFinite(duration))
+}
 
-    return resolvedValue
+// The longest of the transitions (or animations), including its delay.
+function resolveTotalDuration(timings: Timing[]) {
+  return timings.reduce((total, { delay, duration }) => Math.max(total, delay + duration), 0)
+}
+
+function waitForTransition(node: HTMLElement, _done: (reason: Reason) => void) {
+  const d = disposables()
+  const done = once(_done)
+
+  if (!node) return d.dispose
+
+  const {
+    transitionProperty,
+    transitionDuration,
+    transitionDelay,
+    animationName,
+    animationDuration,
+    animationDelay,
+    animationIterationCount,
+  } = getComputedStyle(node)
+
+  const transitions = resolveTimings(
+    parseNames(transitionProperty, 'all'),
+    transitionDuration,
+    transitionDelay
+  )
+  const animations = resolveTimings(
+    parseNames(animationName, 'none'),
+    animationDuration,
+    animationDelay,
+    animationIterationCount
+  )
+  const transitionMs = resolveTotalDuration(transitions)
+  const animationMs = resolveTotalDuration(animations)
+
+  // Transitions and keyframe animations can be combined, in that case we wait for the longest one.
+  const [totalMs, timings, [endEvent, cancelEvent]] =
+    animationMs > transitionMs
+      ? [animationMs, animations, ['animationend', 'animationcancel']]
+      : [transitionMs, transitions, ['transitionend', 'transitioncancel']]
+
+  // No transition is happening, so we should cleanup already.
+  if (totalMs === 0) {
+    done(Reason.Finished)
+    return d.dispose
+  }
+
+  // The `*end` and `*cancel` events bubble, so we have to make sure that we are not finishing early
+  // because of a transitioning child. The `*end` event fires for every transitioned property (or
+  // animation), its name tells us whether it was the longest one. Properties that are transitioned
+  // via `all` share its timing.
+  function handleEnd(event: Event) {
+    if (event.target !== node) return
+
+    const name =
+      endEvent === 'transitionend'
+        ? (event as TransitionEvent).propertyName
+        : (event as AnimationEvent).animationName
+    const timing =
+      timings.find(timing => timing.name === name) ??
+      (endEvent === 'transitionend' ? timings.find(timing => timing.name === 'all') : undefined)
+
+    if (timing !== undefined && timing.delay + timing.duration >= totalMs - 1) {
+      done(Reason.Finished)
+    }
+  }
+
+  // A cancelled transition (e.g. because the transitioned property was reset) won't ever reach its
+  // end, so we treat it as finished, unless something else is still running.
+  function handleCancel(event: Event) {
+    if (event.target !== node) return
+    if (!isAnimating(node)) done(Reason.Finished)
+  }
+
+  node.addEventListener(endEvent, handleEnd)
+  node.addEventListener(cancelEvent, handleCancel)
+  d.add(() => {
+    node.removeEventListener(endEvent, handleEnd)
+    node.removeEventListener(cancelEvent, handleCancel)
   })
 
-  // Waiting for the transition to end. We could use the `transitionend` event, however when no
-  // actual transition/duration is defined then the `transitionend` event is not fired.
-  //
-  // TODO: Downside is, when you slow down transitions via devtools this timeout is still using the
-  // full 100% speed instead of the 25% or 10%.
-  if (durationMs !== 0) {
-    d.setTimeout(() => {
+  // The events above are not guaranteed to fire, for example when the transitioned property didn't
+  // actually change. Therefore we keep a timer around as a safety net. When the browser tells us
+  // that the transition is still running (e.g. because it is slowed down via devtools) we keep
+  // waiting for the events instead.
+  function fallback() {
+    if (isAnimating(node)) {
+      d.setTimeout(fallback, totalMs)
+    } else {
       done(Reason.Finished)
-    }, durationMs + delaysMs)
-  } else {
-    // No transition is happening, so we should cleanup already. Otherwise we have to wait until we
-    // get disposed.
-    done(Reason.Finished)
+    }
   }
 
-  // If we get disposed before the timeout runs we should cleanup anyway
+  d.setTimeout(fallback, totalMs)
+
+  // If we get disposed before the transition ends we should cleanup anyway
   d.add(() => done(Reason.Cancelled))
 
   return d.dispose
 }
 
+function scaleDurations(node: HTMLElement, multiplier: number) {
+  const d = disposables()
+  const computed = getComputedStyle(node)
+
+  for (let property of [
+    'transitionDuration',
+    'transitionDelay',
+    'animationDuration',
+    'animationDelay',
+  ] as const) {
+    const value = computed[property]
+
+    if (!value) continue
+
+    const previous = node.style[property]
+    node.style[property] = parseTimes(value)
+      .map(ms => `${ms * multiplier}ms`)
+      .join(', ')
+    d.add(() => (node.style[property] = previous))
+  }
+
+  return d.dispose
+}
+
+// The warnings we already showed (per node), so that toggling a misconfigured transition doesn't
+// flood the console.
+const warnedNodes = new WeakMap<HTMLElement, Set<string>>()
+const warnedMessages = new Set<string>()
+
+function warnOnce(message: string, node?: HTMLElement) {
+  const warned = node === undefined ? warnedMessages : warnedNodes.get(node) ?? new Set<string>()
+
+  if (warned.has(message)) return
+  warned.add(message)
+
+  if (node === undefined) return console.warn(message)
+
+  warnedNodes.set(node, warned)
+
+  // Passing the node along lets the browser devtools point us to the element in question.
+  console.warn(message, node)
+}
+
+// The transition classes come and go, the other classes (e.g. the `className` of a `Transition`)
+// are what tells us which component rendered the node.
+function describeNode(node: HTMLElement, transitionClasses: string[]) {
+  const classes = Array.from(node.classList).filter(
+    className => !transitionClasses.includes(className)
+  )
+
+  return `<${node.tagName.toLowerCase()}${node.id ? ` id="${node.id}"` : ''}${
+    classes.length > 0 ? ` class="${classes.join(' ')}"` : ''
+  }>`
+}
+
+// Common mistakes that make an element snap instead of transition, checked once the `to` classes
+// are applied.
+function warnAboutMistakes(
+  node: HTMLElement,
+  base: string[],
+  from: string[],
+  to: string[],
+  { durationMultiplier }: { durationMultiplier: number }
+) {
+  const transitionClasses = [...base, ...from, ...to]
+
+  if (
+    from.length > 0 &&
+    from.length === to.length &&
+    from.every(className => to.includes(className))
+  ) {
+    warnOnce(
+      `The from and to classes (\`${from.join(' ')}\`) of ${describeNode(
+        node,
+        transitionClasses
+      )} are identical, so there is nothing to transition.`,
+      node
+    )
+  }
+
+  // When the durations are scaled down to 0ms, finishing immediately is exactly what was asked for.
+  if (durationMultiplier === 0) return
+
+  // We can't use the total duration here, infinite animations are left out of it on purpose. Some
+  // environments (e.g. JSDOM) don't compute the durations at all, in which case we can't tell.
+  const { transitionDuration, animationDuration } = getComputedStyle(node)
+  const durations = parseTimes(transitionDuration).concat(parseTimes(animationDuration))
+
+  if (base.length > 0 && durations.length > 0 && durations.every(duration => duration === 0)) {
+    warnOnce(
+      `The transition classes (\`${base.join(' ')}\`) of ${describeNode(
+        node,
+        transitionClasses
+      )} resolve to a duration of 0ms, so the transition finishes immediately. Did you forget a \`duration-*\` class?`,
+      node
+    )
+  }
+}
+
+// We can't know which properties will change when everything is transitioned, so we only keep the
+// ones that are commonly transitioned in place.
+const fallbackProperties = ['opacity', 'transform']
+
+function resolveTransitionedProperties(value: string) {
+  return value
+    .split(',')
+    .map(property => property.trim())
+    .filter(property => property !== '' && property !== 'none')
+    .reduce<string[]>(
+      (properties, property) =>
+        properties.concat(property === 'all' ? fallbackProperties : [property]),
+      []
+    )
+}
+
+// Nodes whose transition got interrupted, together with a function to release their frozen styles.
+const interrupted = new WeakMap<HTMLElement, () => void>()
+
+// Keep the transitioned properties at their current (mid-transition) values using inline styles, so
+// that removing the classes doesn't make the node jump. The values are read right away, but only
+// written once the returned function is called. The next transition of the node picks these up and
+// continues from there, otherwise we release them after a frame.
+function captureStyles(node: HTMLElement) {
+  const computed = getComputedStyle(node)
+  const properties = resolveTransitionedProperties(computed.transitionProperty)
+
+  if (properties.length === 0) return noop
+
+  // Read all the values before writing any of them, so that we only trigger a single layout.
+  const values = properties.map(property => computed.getPropertyValue(property))
+
+  return function freeze() {
+    const previous = properties.map(property => node.style.getPropertyValue(property))
+
+    properties.forEach((property, i) => node.style.setProperty(property, values[i]))
+
+    function release() {
+      properties.forEach((property, i) => {
+        if (previous[i]) node.style.setProperty(property, previous[i])
+        else node.style.removeProperty(property)
+      })
+    }
+
+    interrupted.get(node)?.()
+    interrupted.set(node, release)
+
+    requestAnimationFrame(() => {
+      if (interrupted.get(node) !== release) return
+      interrupted.delete(node)
+      release()
+    })
+  }
+}
+
+type Styles = CSSProperties
+
+// The properties that don't get a `px` unit when a number is used, the same ones as in React.
+const unitlessProperties = new Set(
+  [
+    'animationIterationCount',
+    'borderImageOutset',
+    'borderImageSlice',
+    'borderImageWidth',
+    'boxFlex',
+    'boxFlexGroup',
+    'boxOrdinalGroup',
+    'columnCount',
+    'columns',
+    'flex',
+    'flexGrow',
+    'flexPositive',
+    'flexShrink',
+    'flexNegative',
+    'flexOrder',
+    'gridArea',
+    'gridRow',
+    'gridRowEnd',
+    'gridRowSpan',
+    'gridRowStart',
+    'gridColumn',
+    'gridColumnEnd',
+    'gridColumnSpan',
+    'gridColumnStart',
+    'fontWeight',
+    'lineClamp',
+    'lineHeight',
+    'opacity',
+    'order',
+    'orphans',
+    'tabSize',
+    'widows',
+    'zIndex',
+    'zoom',
+    'fillOpacity',
+    'floodOpacity',
+    'stopOpacity',
+    'strokeDasharray',
+    'strokeDashoffset',
+    'strokeMiterlimit',
+    'strokeOpacity',
+    'strokeWidth',
+  ].reduce<string[]>(
+    (properties, property) =>
+      properties.concat(
+        property,
+        ...['Webkit', 'ms', 'Moz', 'O'].map(
+          prefix => prefix + property.charAt(0).toUpperCase() + property.slice(1)
+        )
+      ),
+    []
+  )
+)
+
+// Style objects use camelCased property names (e.g. `backgroundColor` or `WebkitTransform`), just
+// like in React. Custom properties are used as is.
+function resolvePropertyName(property: string) {
+  if (property.startsWith('--')) return property
+
+  return property
+    .replace(/([A-Z])/g, '-$1')
+    .toLowerCase()
+    .replace(/^ms-/, '-ms-')
+}
+
+function resolveValue(property: string, value: string | number) {
+  if (typeof value !== 'number' || value === 0) return String(value).trim()
+  if (property.startsWith('--') || unitlessProperties.has(property)) return String(value)
+  return `${value}px`
+}
+
+// Apply the styles inline, and return a function that restores the previous inline values.
+function addStyles(node: HTMLElement, styles: Styles = {}) {
+  const values = styles as Record<string, string | number | boolean | null | undefined>
+  const properties = Object.keys(values).filter(property => {
+    const value = values[property]
+    return typeof value === 'number' || (typeof value === 'string' && value !== '')
+  })
+  const names = properties.map(resolvePropertyName)
+  const previous = names.map(name => node.style.getPropertyValue(name))
+
+  properties.forEach((property, i) => {
+    node.style.setProperty(names[i], resolveValue(property, values[property] as string | number))
+  })
+
+  return function restoreStyles() {
+    names.forEach((name, i) => {
+      if (previous[i]) node.style.setProperty(name, previous[i])
+      else node.style.removeProperty(name)
+    })
+  }
+}
+
 export function transition(
   node: HTMLElement,
   base: string[],
   from: string[],
   to: string[],
-  done?: (reason: Reason) => void
+  done?: (reason: Reason) => void,
+  options: {
+    durationMultiplier?: number
+    delay?: number
+    wait?: Wait
+    fromStyle?: Styles
+    toStyle?: Styles
+  } = {}
 ) {
   const d = disposables()
   const _done = done !== undefined ? once(done) : () => {}
+  const { durationMultiplier = 1, delay = 0, wait = immediately, fromStyle, toStyle } = options
+
+  // When we interrupted a previous transition, its styles are kept in place and take precedence over
+  // the `from` classes. This way we continue from the current position instead of jumping back.
+  const resume = interrupted.get(node)
+  interrupted.delete(node)
+
+  let running = false
+
+  // The inline styles are applied and removed at the same points as the `from` and `to` classes.
+  // When resuming, the frozen styles already describe where we start from.
+  let restoreStyles = resume ? noop : addStyles(node, fromStyle)
+
+  // When we get disposed while transitioning, we freeze the node at its current position. This has
+  // to happen before any of the classes or inline styles are removed.
+  d.add(() => {
+    const freeze = running ? captureStyles(node) : null
+
+    restoreStyles()
+    restoreStyles = noop
+
+    if (freeze) freeze()
+    // We got interrupted before we even started, so we hand the frozen styles back.
+    else if (resume) interrupted.set(node, resume)
+  })
 
   addClasses(node, ...base, ...from)
 
-  d.nextFrame(() => {
+  // The durations have to be scaled before we transition to the `to` classes, a running transition
+  // won't pick up a changed duration anymore.
+  const restoreDurations =
+    durationMultiplier !== 1 ? scaleDurations(node, durationMultiplier) : noop
+
+  function start() {
     removeClasses(node, ...from)
+    restoreStyles()
+    resume?.()
     addClasses(node, ...to)
+    restoreStyles = addStyles(node, toStyle)
+    running = true
+
+    if (process.env.NODE_ENV !== 'production') {
+      warnAboutMistakes(node, base, from, to, { durationMultiplier })
+    }
 
     d.add(
       waitForTransition(node, reason => {
+        running = false
         removeClasses(node, ...to, ...base)
+        restoreStyles()
+        restoreStyles = noop
+        restoreDurations()
         return _done(reason)
       })
     )
+  }
+
+  // While waiting or delayed, the node stays in its `from` state.
+  d.nextFrame(() => {
+    d.add(
+      wait(() => {
+        if (delay > 0) d.setTimeout(start, delay * durationMultiplier)
+        else start()
+      })
+    )
   })
 
   // Once we get disposed, we should ensure that we cleanup after ourselves. In case of an unmount,
@@ -84,9 +551,153 @@ export function transition(
   // are already removed which is also a no-op. However if you go from enter -> leave mid-transition
   // then we have some leftovers that should be cleaned.
   d.add(() => removeClasses(node, ...base, ...from, ...to))
+  d.add(restoreDurations)
 
   // When we get disposed early, than we should also call the done method but switch the reason.
   d.add(() => _done(Reason.Cancelled))
 
   return d.dispose
 }
+
+export function animate(
+  node: HTMLElement,
+  keyframes: Keyframe[] | PropertyIndexedKeyframes,
+  options: KeyframeAnimationOptions,
+  done?: (reason: Reason) => void,
+  { durationMultiplier = 1, wait = immediately }: { durationMultiplier?: number; wait?: Wait } = {}
+) {
+  const d = disposables()
+  const _done = done !== undefined ? once(done) : () => {}
+
+  const animation = node.animate(
+    keyframes,
+    durationMultiplier === 1
+      ? options
+      : {
+          ...options,
+          duration:
+            typeof options.duration === 'number'
+              ? options.duration * durationMultiplier
+              : options.duration,
+          delay: (options.delay ?? 0) * durationMultiplier,
+        }
+  )
+
+  animation.onfinish = () => _done(Reason.Finished)
+  animation.oncancel = () => _done(Reason.Cancelled)
+
+  // While waiting, the animation is paused at its start.
+  let waiting = true
+  d.add(
+    wait(() => {
+      if (animation.playState === 'paused') animation.play()
+      waiting = false
+    })
+  )
+  if (waiting) animation.pause()
+
+  // When we get disposed early (e.g. because we have to transition in the other direction) we stop
+  // the animation, this also removes the styles that are kept around because of the `fill` option.
+  d.add(() => _done(Reason.Cancelled))
+  d.add(() => animation.cancel())
+
+  return d.dispose
+}
+
+type CancellablePromise<T> = Promise<T> & { cancel(): void }
+
+function transitionAsync(
+  node: HTMLElement,
+  base?: string,
+  from?: string,
+  to?: string,
+  styles: { fromStyle?: Styles; toStyle?: Styles } = {}
+) {
+  let cancel = () => {}
+
+  const promise = new Promise<Reason>(resolve => {
+    cancel = transition(
+      node,
+      splitClasses(base),
+      splitClasses(from),
+      splitClasses(to),
+      resolve,
+      styles
+    )
+  })
+
+  return Object.assign(promise, { cancel }) as CancellablePromise<Reason>
+}
+
+export function enter(
+  node: HTMLElement,
+  classes: Partial<{
+    enter: string
+    enterFrom: string
+    enterTo: string
+    enterFromStyle: Styles
+    enterToStyle: Styles
+  }>
+) {
+  return transitionAsync(node, classes.enter, classes.enterFrom, classes.enterTo, {
+    fromStyle: classes.enterFromStyle,
+    toStyle: classes.enterToStyle,
+  })
+}
+
+export function leave(
+  node: HTMLElement,
+  classes: Partial<{
+    leave: string
+    leaveFrom: string
+    leaveTo: string
+    leaveFromStyle: Styles
+    leaveToStyle: Styles
+  }>
+) {
+  return transitionAsync(node, classes.leave, classes.leaveFrom, classes.leaveTo, {
+    fromStyle: classes.leaveFromStyle,
+    toStyle: classes.leaveToStyle,
+  })
+}
+
+export function move(
+  node: HTMLElement,
+  offset: { x: number; y: number },
+  classes: string[],
+  done?: (reason: Reason) => void
+) {
+  const d = disposables()
+  const _done = done !== undefined ? once(done) : () => {}
+
+  // Put the node back at its previous position, without transitioning to it. Inline styles that were
+  // already set (e.g. by the user or by an enter transition) are restored once we are in place.
+  const restoreStyles = addStyles(node, {
+    transform: `translate(${offset.x}px, ${offset.y}px) ${node.style.transform}`.trim(),
+    transitionDuration: '0s',
+  })
+
+  d.nextFrame(() => {
+    // Transition the node from its previous position to its new (actual) position.
+    addClasses(node, ...classes)
+    restoreStyles()
+
+    d.add(
+      waitForTransition(node, reason => {
+        removeClasses(node, ...classes)
+        return _done(reason)
+      })
+    )
+  })
+
+  // When we get disposed early, we should cleanup after ourselves so that a new move can start from
+  // the current position.
+  d.add(() => {
+    restoreStyles()
+    removeClasses(node, ...classes)
+  })
+
+  d.add(() => _done(Reason.Cancelled))
+
+  return d.dispose
+}
@@ -0,0 +1,101 @@
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import { renderToString } from 'react-dom/server'
+import { render, act } from '@testing-library/react'
+
+import { suppressConsoleLogs } from '../test-utils/suppress-console-logs'
+import { IdProvider, useId } from './use-id'
+
+function Item() {
+  const id = useId()
+  return <div id={id === null ? undefined : `item-${id}`} />
+}
+
+function Example({ children }: { children?: React.ReactNode }) {
+  return (
+    <IdProvider>
+      <Item />
+      <Item />
+      {children}
+    </IdProvider>
+  )
+}
+
+it('should generate unique IDs', () => {
+  const { container } = render(<Example />)
+
+  expect(container.innerHTML).toEqual('<div id="item-1"></div><div id="item-2"></div>')
+})
+
+it('should start counting from scratch for every IdProvider', () => {
+  render(<Example />)
+  const { container } = render(<Example />)
+
+  expect(container.innerHTML).toEqual('<div id="item-1"></div><div id="item-2"></div>')
+})
+
+it(
+  'should not generate IDs on the server',
+  suppressConsoleLogs(() => {
+    expect(renderToString(<Example />)).toEqual('<div></div><div></div>')
+  })
+)
+
+it('should generate the IDs after hydration', () => {
+  const container = document.createElement('div')
+  container.innerHTML = renderToString(<Example />)
+
+  const spy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+  act(() => {
+    ReactDOM.hydrate(<Example />, container)
+  })
+
+  expect(spy).not.toHaveBeenCalled()
+  expect(container.innerHTML).toEqual('<div id="item-1"></div><div id="item-2"></div>')
+
+  spy.mockRestore()
+})
+
+it('should hydrate in React.StrictMode', () => {
+  const container = document.createElement('div')
+  container.innerHTML = renderToString(<Example />)
+
+  const spy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+  act(() => {
+    ReactDOM.hydrate(
+      <React.StrictMode>
+        <Example />
+      </React.StrictMode>,
+      container
+    )
+  })
+
+  expect(spy).not.toHaveBeenCalled()
+  expect(container.innerHTML).toEqual('<div id="item-1"></div><div id="item-2"></div>')
+
+  spy.mockRestore()
+})
+
+it('should generate the ID in the first render once hydrated', () => {
+  const ids: (number | null)[] = []
+
+  function LateItem() {
+    const id = useId()
+    ids.push(id)
+    return <div id={`item-${id}`} />
+  }
+
+  const { container, rerender } = render(<Example />)
+  rerender(
+    <Example>
+      <LateItem />
+    </Example>
+  )
+
+  expect(ids).toEqual([3])
+  expect(container.innerHTML).toEqual(
+    '<div id="item-1"></div><div id="item-2"></div><div id="item-3"></div>'
+  )
+})
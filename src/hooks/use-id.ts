@@ -1,11 +1,34 @@
 import * as React from 'react'
+import { useIsoMorphicEffect } from './use-iso-morphic-effect'
 
-let id = 0
-function generateId() {
-  return ++id
+function createIdState() {
+  let id = 0
+  return { generateId: () => ++id, hydrated: false }
 }
 
+// Every `IdProvider` starts counting from scratch, which keeps IDs in tests independent of the order
+// in which they run.
+const IdContext = React.createContext(createIdState())
+
+export function IdProvider(props: { children?: React.ReactNode }) {
+  const [state] = React.useState(createIdState)
+  return React.createElement(IdContext.Provider, { value: state }, props.children)
+}
+
+// The server (and the client while hydrating) renders without IDs, there is no way to generate them
+// in the same order on both sides (e.g. `React.StrictMode` renders twice on the client only). The ID
+// is assigned in an effect instead. Once hydrated, components get their ID in the first render.
 export function useId() {
-  const [id] = React.useState(generateId)
+  const state = React.useContext(IdContext)
+  const [id, setId] = React.useState(() => (state.hydrated ? state.generateId() : null))
+
+  useIsoMorphicEffect(() => {
+    if (id === null) setId(state.generateId())
+  }, [state, id])
+
+  React.useEffect(() => {
+    state.hydrated = true
+  }, [state])
+
   return id
 }
@@ -4,6 +4,10 @@ export function useIsMounted() {
   const mounted = React.useRef(true)
 
   React.useEffect(() => {
+    // Effects can be cleaned up and ran again without actually unmounting (e.g. in
+    // `React.StrictMode`), so we have to mark ourselves as mounted again.
+    mounted.current = true
+
     return () => {
       mounted.current = false
     }
@@ -0,0 +1,13 @@
+import * as React from 'react'
+
+import { useIsoMorphicEffect } from './use-iso-morphic-effect'
+
+export function useLatestValue<T>(value: T) {
+  const cache = React.useRef(value)
+
+  useIsoMorphicEffect(() => {
+    cache.current = value
+  }, [value])
+
+  return cache
+}
@@ -0,0 +1,38 @@
+import * as React from 'react'
+
+const query = '(prefers-reduced-motion: reduce)'
+
+function getMediaQuery() {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return null
+  return window.matchMedia(query)
+}
+
+export function usePrefersReducedMotion() {
+  const [prefersReducedMotion, setPrefersReducedMotion] = React.useState(
+    () => getMediaQuery()?.matches ?? false
+  )
+
+  React.useEffect(() => {
+    const mediaQuery = getMediaQuery()
+
+    if (mediaQuery === null) return
+
+    function handleChange() {
+      setPrefersReducedMotion(mediaQuery!.matches)
+    }
+
+    // The preference could have changed in between the initial render and now.
+    handleChange()
+
+    // Older versions of Safari only support the deprecated `addListener` API.
+    if (typeof mediaQuery.addEventListener === 'function') {
+      mediaQuery.addEventListener('change', handleChange)
+      return () => mediaQuery.removeEventListener('change', handleChange)
+    }
+
+    mediaQuery.addListener(handleChange)
+    return () => mediaQuery.removeListener(handleChange)
+  }, [])
+
+  return prefersReducedMotion
+}
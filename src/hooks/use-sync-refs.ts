@@ -0,0 +1,42 @@
+import * as React from 'react'
+
+import { useIsoMorphicEffect } from './use-iso-morphic-effect'
+import { useLatestValue } from './use-latest-value'
+
+function assignRef<TType>(ref: React.Ref<TType> | undefined, value: TType | null) {
+  if (ref == null) return
+  if (typeof ref === 'function') ref(value)
+  else (ref as React.MutableRefObject<TType | null>).current = value
+}
+
+export function useSyncRefs<TType>(...refs: (React.Ref<TType> | undefined)[]) {
+  const cache = useLatestValue(refs)
+  const node = React.useRef<TType | null>(null)
+  const previousRefs = React.useRef(refs)
+
+  // The returned ref is stable, so that React doesn't detach and re-attach it on every render.
+  const syncRefs = React.useCallback(
+    (value: TType | null) => {
+      node.current = value
+      for (let ref of cache.current) assignRef(ref, value)
+    },
+    [cache]
+  )
+
+  // Because the returned ref is stable, React won't call it again when one of the refs is swapped
+  // for another one while we are mounted. Therefore we hand the node over ourselves.
+  useIsoMorphicEffect(() => {
+    const previous = previousRefs.current
+    previousRefs.current = refs
+
+    if (node.current === null) return
+
+    previous.forEach((ref, i) => {
+      if (ref === refs[i]) return
+      assignRef(ref, null)
+      assignRef(refs[i], node.current)
+    })
+  })
+
+  return syncRefs
+}
@@ -5,5 +5,13 @@ import * as TailwindUI from './index'
  * the outside world that we didn't want!
  */
 it('should expose the correct components', () => {
-  expect(Object.keys(TailwindUI)).toEqual(['Transition'])
+  expect(Object.keys(TailwindUI)).toEqual([
+    'Reason',
+    'enter',
+    'leave',
+    'IdProvider',
+    'useTransition',
+    'Transition',
+    'TransitionConfig',
+  ])
 })
@@ -1 +1,3 @@
 export * from './components/transitions/transition'
+export { Reason, enter, leave } from './components/transitions/utils/transition'
+export { IdProvider } from './hooks/use-id'
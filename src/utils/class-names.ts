@@ -1,3 +1,23 @@
-export function classNames(...classes: (false | null | undefined | string)[]): string {
-  return classes.filter(Boolean).join(' ')
+export type ClassValue =
+  | false
+  | null
+  | undefined
+  | string
+  | ClassValue[]
+  | Record<string, boolean | null | undefined>
+
+export function classNames(...classes: ClassValue[]): string {
+  return classes
+    .map(value => {
+      if (!value) return ''
+      if (typeof value === 'string') return value
+      if (Array.isArray(value)) return classNames(...value)
+
+      // Objects map class names to whether they should be applied.
+      return Object.keys(value)
+        .filter(className => value[className])
+        .join(' ')
+    })
+    .filter(Boolean)
+    .join(' ')
 }